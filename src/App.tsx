@@ -56,6 +56,12 @@ function App() {
                         element={<GameWrapper />}
                     />
 
+                    {/* Spectator route (admins watch the map without a character) */}
+                    <Route
+                        path='/spectate'
+                        element={<GameWrapper spectator />}
+                    />
+
                     {/* Admin route */}
                     <Route
                         path='/admin/dashboard'
@@ -16,12 +16,45 @@ export const GameConfig = {
     map: {
         tileSize: 64, // size of each tile in pixels
         padding: 32, // padding from map edges (prevents character from going outside)
+        defaultMapId: 'main', // map id players start on (also the multiplayer room / spawn data key)
+        files: { main: 'map.tmj', classroom: 'classroom.tmj', office: 'office.tmj' } as Record<string, string>, // map id -> Tiled file; others load <id>.tmj
+        names: { main: 'メインマップ', classroom: '教室', office: '会社' } as Record<string, string>, // map id -> label (admin map picker)
     },
 
     // Camera Settings
     camera: {
         deadzoneWidthPercent: 0.35, // 35% of screen width
         deadzoneHeightPercent: 0.4, // 40% of screen height
+        followSmoothing: 8, // how fast the camera catches up (per second, higher = snappier)
+        defaultZoom: 1,
+        minZoom: 0.5,
+        maxZoom: 2,
+        wheelZoomSpeed: 0.0015, // zoom change per wheel delta unit (exponential, so trackpads feel smooth)
+        spectatorMinZoom: 0.25, // spectators can zoom out further to see the whole map
+        spectatorPanSpeed: 600, // screen pixels per second when panning with WASD / arrow keys
+    },
+
+    // Minimap Settings
+    minimap: {
+        size: 180, // longest side of the minimap in screen pixels
+        refreshInterval: 100, // marker redraw interval (ms)
+        waypointReachedDistance: 32, // waypoint clears once the player is this close (pixels)
+    },
+
+    // Remote player smoothing (snapshot interpolation)
+    remotePlayers: {
+        interpolationDelay: 100, // render remote players this far in the past (ms) so there is a snapshot on both sides
+        maxExtrapolation: 200, // keep moving along the last velocity for at most this long when packets are late (ms)
+        snapDistance: 192, // jumps longer than this are teleports - snap instead of gliding (pixels)
+        bufferSize: 20, // snapshots kept per player
+    },
+
+    // Edge-of-screen arrows for off-screen chests and bosses
+    indicators: {
+        edgeMargin: 28, // distance of the arrows from the screen edge (pixels)
+        fadeSpeed: 8, // fade in/out rate (per second)
+        pixelsPerMeter: 32, // distance label scale (one tile = 1m)
+        maxChests: 5, // only the nearest chests get an arrow, to keep the edges readable
     },
 
     // Rendering Settings
@@ -36,6 +69,15 @@ export const GameConfig = {
     input: {
         // Priority order for diagonal prevention: Up > Down > Left > Right
         movementPriority: ['up', 'down', 'left', 'right'] as const,
+        // 'fourWay' = one direction at a time, 'eightWay' = diagonals with normalized speed
+        movementMode: 'fourWay' as 'fourWay' | 'eightWay',
+        // Gamepad (standard mapping button indices)
+        gamepad: {
+            stickDeadzone: 0.25, // ignore left stick tilt below this
+            interactButton: 0, // A / Cross - same as F key
+            inventoryButton: 2, // X / Square
+            emojiButton: 3, // Y / Triangle
+        },
     },
 
     // Asset Paths (from public folder)
@@ -62,14 +104,31 @@ export const GameConfig = {
     collision: {
         enabled: true, // enable/disable collision system
         debugDraw: false, // draw collision rectangles for debugging
+        debugToggleKey: 'Backquote', // key that toggles the collision debug overlay in game
+        cellSize: 128, // spatial hash cell size in pixels
+    },
+
+    // Click-to-move Pathfinding
+    navigation: {
+        cellSize: 16, // navigation grid cell size in pixels
+        maxSearchNodes: 60000, // give up A* after expanding this many cells
+        snapRadius: 8, // cells searched around a blocked click for a walkable spot
     },
 
     // Multiplayer Settings
     multiplayer: {
         enabled: true, // Enable multiplayer
         serverUrl: import.meta.env.VITE_SERVER_URL || 'http://localhost:3000',
-        reconnectAttempts: 3,
-        reconnectDelay: 1000, // ms
+        reconnectAttempts: 8,
+        reconnectDelay: 1000, // first retry delay, doubled on every attempt (ms)
+        reconnectDelayMax: 15000, // backoff cap (ms)
+        sendRate: 20, // max position updates per second
+        heartbeatInterval: 1000, // resend an unchanged position this often so the server knows we're still here (ms)
+        positionEpsilon: 0.5, // smaller moves than this count as unchanged (pixels)
+        compactMovePayload: false, // send player:move as [x, y, directionIndex, isMoving, seq] (server must support it)
+        maxPendingInputs: 600, // predicted moves kept for replay after a server correction (~10s at 60fps)
+        correctionSmoothing: 10, // how fast the sprite catches up after a correction (per second)
+        correctionSnapDistance: 128, // corrections larger than this snap instead of easing (pixels)
     },
 } as const
 
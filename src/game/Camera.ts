@@ -0,0 +1,314 @@
+import * as PIXI from 'pixi.js'
+
+import { GameConfig } from '../config/gameConfig'
+import { type Rectangle } from './CollisionManager'
+
+// Pointer travel (px) before a press becomes a drag instead of a click
+const DRAG_THRESHOLD = 6
+
+// Anything the camera can follow (local character, remote players)
+export interface CameraTarget {
+    getPosition(): { x: number; y: number }
+}
+
+/**
+ * Camera for the map container
+ * Follows a target with a deadzone and smoothing, zooms with the mouse wheel or a pinch,
+ * and keeps the view inside the map at any zoom level
+ */
+export class Camera {
+    private container: PIXI.Container | null = null
+    private screen: PIXI.Rectangle // Live app.screen - follows renderer resizes
+    private world: Rectangle = { x: 0, y: 0, width: 0, height: 0 } // Map extent (infinite maps can start below 0)
+    private center = { x: 0, y: 0 } // World point at the middle of the screen
+    private zoom: number = GameConfig.camera.defaultZoom
+    private minZoom: number = GameConfig.camera.minZoom
+    private maxZoom: number = GameConfig.camera.maxZoom
+    private target: CameraTarget | null = null
+    private followStoppedCallback: (() => void) | null = null
+
+    // Pinch zoom / drag pan state
+    private canvas: HTMLCanvasElement | null = null
+    private touches = new Map<number, { x: number; y: number }>()
+    private pinchDistance: number | null = null
+    private dragPanEnabled = false
+    private drag: { pointerId: number; startX: number; startY: number; lastX: number; lastY: number } | null = null
+    private gestured = false // The current pointer gesture zoomed or panned - don't treat its release as a tap
+
+    constructor(screen: PIXI.Rectangle) {
+        this.screen = screen
+    }
+
+    /**
+     * Point the camera at a new map
+     */
+    setContainer(container: PIXI.Container, world: Rectangle) {
+        this.container = container
+        this.world = { ...world }
+        this.apply()
+    }
+
+    setTarget(target: CameraTarget | null) {
+        this.target = target
+    }
+
+    getTarget(): CameraTarget | null {
+        return this.target
+    }
+
+    /**
+     * Drop the follow target because the viewer took over (drag, keys) or the target went away
+     */
+    stopFollowing() {
+        if (!this.target) return
+        this.target = null
+        this.followStoppedCallback?.()
+    }
+
+    onFollowStopped(callback: () => void) {
+        this.followStoppedCallback = callback
+    }
+
+    /**
+     * Center on a world point immediately (spawn, map transitions)
+     */
+    lookAt(x: number, y: number) {
+        this.center = { x, y }
+        this.apply()
+    }
+
+    snapToTarget() {
+        if (!this.target) return
+        const { x, y } = this.target.getPosition()
+        this.lookAt(x, y)
+    }
+
+    /**
+     * Per-frame update: ease toward the target once it leaves the deadzone
+     */
+    update(deltaTime: number) {
+        if (this.target) {
+            const position = this.target.getPosition()
+            const deadzone = this.getDeadzone()
+            const desired = { ...this.center }
+
+            if (position.x < deadzone.x) desired.x -= deadzone.x - position.x
+            else if (position.x > deadzone.x + deadzone.width) desired.x += position.x - (deadzone.x + deadzone.width)
+            if (position.y < deadzone.y) desired.y -= deadzone.y - position.y
+            else if (position.y > deadzone.y + deadzone.height) desired.y += position.y - (deadzone.y + deadzone.height)
+
+            // Frame-rate independent exponential smoothing
+            const t = 1 - Math.exp(-GameConfig.camera.followSmoothing * deltaTime)
+            this.center.x += (desired.x - this.center.x) * t
+            this.center.y += (desired.y - this.center.y) * t
+        }
+        this.apply()
+    }
+
+    getZoom(): number {
+        return this.zoom
+    }
+
+    setZoomLimits(minZoom: number, maxZoom: number) {
+        this.minZoom = minZoom
+        this.maxZoom = maxZoom
+        this.setZoom(this.zoom)
+    }
+
+    /**
+     * Change zoom, keeping the world point under `anchor` (screen pixels) in place
+     */
+    setZoom(zoom: number, anchor?: { x: number; y: number }) {
+        const next = Math.max(this.minZoom, Math.min(this.maxZoom, zoom))
+        if (next === this.zoom) return
+
+        if (anchor) {
+            const world = this.screenToWorld(anchor.x, anchor.y)
+            this.zoom = next
+            this.center.x = world.x - (anchor.x - this.screen.width / 2) / next
+            this.center.y = world.y - (anchor.y - this.screen.height / 2) / next
+        } else {
+            this.zoom = next
+        }
+        this.apply()
+    }
+
+    /**
+     * Move the view by a screen-space offset (free camera)
+     */
+    panBy(dx: number, dy: number) {
+        this.center.x -= dx / this.zoom
+        this.center.y -= dy / this.zoom
+        this.apply()
+    }
+
+    /**
+     * Deadzone in world coordinates - the target can move freely inside it
+     */
+    getDeadzone(): Rectangle {
+        const width = (this.screen.width * GameConfig.camera.deadzoneWidthPercent) / this.zoom
+        const height = (this.screen.height * GameConfig.camera.deadzoneHeightPercent) / this.zoom
+        return { x: this.center.x - width / 2, y: this.center.y - height / 2, width, height }
+    }
+
+    /**
+     * Visible part of the world (map coordinates)
+     */
+    getViewRect(): Rectangle {
+        const width = this.screen.width / this.zoom
+        const height = this.screen.height / this.zoom
+        return { x: this.center.x - width / 2, y: this.center.y - height / 2, width, height }
+    }
+
+    screenToWorld(x: number, y: number): { x: number; y: number } {
+        return {
+            x: this.center.x + (x - this.screen.width / 2) / this.zoom,
+            y: this.center.y + (y - this.screen.height / 2) / this.zoom,
+        }
+    }
+
+    worldToScreen(x: number, y: number): { x: number; y: number } {
+        return {
+            x: (x - this.center.x) * this.zoom + this.screen.width / 2,
+            y: (y - this.center.y) * this.zoom + this.screen.height / 2,
+        }
+    }
+
+    /**
+     * Let the viewer drag the map with the mouse or one finger (free camera)
+     */
+    setDragPan(enabled: boolean) {
+        this.dragPanEnabled = enabled
+        this.drag = null
+    }
+
+    /**
+     * True while (or right after) a pinch or drag - taps from that gesture shouldn't act on the map
+     */
+    isGesturing(): boolean {
+        return this.gestured
+    }
+
+    /**
+     * Listen for wheel / pinch zoom (and drag pan when enabled) on the game canvas
+     */
+    attach(canvas: HTMLCanvasElement) {
+        this.detach()
+        this.canvas = canvas
+        canvas.addEventListener('wheel', this.handleWheel, { passive: false })
+        canvas.addEventListener('pointerdown', this.handlePointerDown)
+        canvas.addEventListener('pointermove', this.handlePointerMove)
+        canvas.addEventListener('pointerup', this.handlePointerUp)
+        canvas.addEventListener('pointercancel', this.handlePointerUp)
+    }
+
+    detach() {
+        if (!this.canvas) return
+        this.canvas.removeEventListener('wheel', this.handleWheel)
+        this.canvas.removeEventListener('pointerdown', this.handlePointerDown)
+        this.canvas.removeEventListener('pointermove', this.handlePointerMove)
+        this.canvas.removeEventListener('pointerup', this.handlePointerUp)
+        this.canvas.removeEventListener('pointercancel', this.handlePointerUp)
+        this.canvas = null
+        this.touches.clear()
+        this.pinchDistance = null
+        this.drag = null
+    }
+
+    /**
+     * Clamp to the map and write the transform to the container
+     * A map smaller than the view is centered instead of clamped
+     */
+    private apply() {
+        const viewWidth = this.screen.width / this.zoom
+        const viewHeight = this.screen.height / this.zoom
+
+        const { x, y, width, height } = this.world
+        this.center.x =
+            width <= viewWidth ?
+                x + width / 2
+            :   Math.max(x + viewWidth / 2, Math.min(x + width - viewWidth / 2, this.center.x))
+        this.center.y =
+            height <= viewHeight ?
+                y + height / 2
+            :   Math.max(y + viewHeight / 2, Math.min(y + height - viewHeight / 2, this.center.y))
+
+        if (!this.container) return
+        this.container.scale.set(this.zoom)
+        this.container.x = this.screen.width / 2 - this.center.x * this.zoom
+        this.container.y = this.screen.height / 2 - this.center.y * this.zoom
+    }
+
+    private handleWheel = (e: WheelEvent) => {
+        e.preventDefault()
+        this.setZoom(this.zoom * Math.exp(-e.deltaY * GameConfig.camera.wheelZoomSpeed), {
+            x: e.offsetX,
+            y: e.offsetY,
+        })
+    }
+
+    private handlePointerDown = (e: PointerEvent) => {
+        // A new gesture starts once every pointer is up
+        if (this.touches.size === 0 && !this.drag) this.gestured = false
+
+        if (this.dragPanEnabled && !this.drag && (e.pointerType !== 'mouse' || e.button === 0)) {
+            this.drag = {
+                pointerId: e.pointerId,
+                startX: e.offsetX,
+                startY: e.offsetY,
+                lastX: e.offsetX,
+                lastY: e.offsetY,
+            }
+            // Keep receiving moves if the pointer leaves the canvas mid-drag
+            this.canvas?.setPointerCapture(e.pointerId)
+        }
+
+        if (e.pointerType !== 'touch') return
+        this.touches.set(e.pointerId, { x: e.offsetX, y: e.offsetY })
+        if (this.touches.size === 2) {
+            this.pinchDistance = this.getTouchSpread().distance
+            this.gestured = true
+        }
+    }
+
+    private handlePointerMove = (e: PointerEvent) => {
+        this.handleDragMove(e)
+        if (!this.touches.has(e.pointerId)) return
+        this.touches.set(e.pointerId, { x: e.offsetX, y: e.offsetY })
+        if (this.touches.size !== 2 || !this.pinchDistance) return
+
+        const { distance, midpoint } = this.getTouchSpread()
+        if (distance > 0) {
+            this.setZoom(this.zoom * (distance / this.pinchDistance), midpoint)
+            this.pinchDistance = distance
+        }
+    }
+
+    private handlePointerUp = (e: PointerEvent) => {
+        if (this.drag?.pointerId === e.pointerId) this.drag = null
+        this.touches.delete(e.pointerId)
+        if (this.touches.size < 2) this.pinchDistance = null
+    }
+
+    private handleDragMove(e: PointerEvent) {
+        const drag = this.drag
+        if (!drag || drag.pointerId !== e.pointerId || this.touches.size > 1) return
+
+        // Small jitter still counts as a click
+        if (!this.gestured && Math.hypot(e.offsetX - drag.startX, e.offsetY - drag.startY) < DRAG_THRESHOLD) return
+        this.gestured = true
+
+        this.stopFollowing()
+        this.panBy(e.offsetX - drag.lastX, e.offsetY - drag.lastY)
+        drag.lastX = e.offsetX
+        drag.lastY = e.offsetY
+    }
+
+    private getTouchSpread(): { distance: number; midpoint: { x: number; y: number } } {
+        const [a, b] = Array.from(this.touches.values())
+        return {
+            distance: Math.hypot(b.x - a.x, b.y - a.y),
+            midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+        }
+    }
+}
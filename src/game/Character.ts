@@ -1,12 +1,62 @@
 import * as PIXI from 'pixi.js'
 
 import { GameConfig } from '../config/gameConfig'
+import { DIRECTION_VECTORS, type MovementVector } from './InputHandler'
 import { LoadingIndicator } from './LoadingIndicator'
 import { EquipmentLayer } from './equipment/EquipmentService'
 import { type PlayerEquipment } from './equipment/types'
 
 type Direction = 'down' | 'up' | 'left' | 'right'
 
+export type MapBounds = { minX: number; maxX: number; minY: number; maxY: number }
+
+export type CollisionCheck = (newX: number, newY: number, oldX: number, oldY: number) => { x: number; y: number }
+
+// A movement step applied locally but not yet confirmed by the server
+interface PredictedInput {
+    seq: number
+    vector: MovementVector
+    deltaTime: number
+}
+
+/**
+ * Position after one movement step: speed-scaled move, collision check, then clamp to the map
+ * Kept free of sprite state so input replays can run the exact same math headlessly
+ */
+export const computeMoveStep = (
+    position: { x: number; y: number },
+    vector: MovementVector,
+    deltaTime: number, // Seconds
+    speed: number,
+    mapBounds?: MapBounds,
+    collisionCheck?: CollisionCheck
+): { x: number; y: number } => {
+    const length = Math.hypot(vector.x, vector.y)
+    if (length === 0) return { x: position.x, y: position.y }
+
+    // Calculate movement distance based on delta time (framerate independent)
+    const moveDistance = speed * deltaTime * Math.min(1, length)
+
+    // Calculate new position
+    let newX = position.x + (vector.x / length) * moveDistance
+    let newY = position.y + (vector.y / length) * moveDistance
+
+    // Check collision if callback provided
+    if (collisionCheck) {
+        const validPos = collisionCheck(newX, newY, position.x, position.y)
+        newX = validPos.x
+        newY = validPos.y
+    }
+
+    // Clamp position within map bounds (with padding)
+    if (mapBounds) {
+        newX = Math.max(mapBounds.minX, Math.min(newX, mapBounds.maxX))
+        newY = Math.max(mapBounds.minY, Math.min(newY, mapBounds.maxY))
+    }
+
+    return { x: newX, y: newY }
+}
+
 export class Character {
     private container: PIXI.Container
     private avatarLayer: PIXI.Container
@@ -21,6 +71,12 @@ export class Character {
     private width: number = GameConfig.character.size
     private height: number = GameConfig.character.size
 
+    // Client-side prediction: numbered moves since the last server correction
+    private inputSeq = 0
+    private pendingInputs: PredictedInput[] = []
+    private teleportSeq = 0 // Corrections for moves before the last teleport are stale
+    private renderOffset = { x: 0, y: 0 } // Visual-only error left over from a correction, eased out each frame
+
     private nameText: PIXI.Text | null = null
     private nameBgTexts: PIXI.Text[] = []
     private emojiText: PIXI.Text | null = null
@@ -241,52 +297,34 @@ export class Character {
     move(
         direction: Direction | null,
         deltaTime: number, // Time elapsed since last frame (in seconds)
-        mapBounds?: { minX: number; maxX: number; minY: number; maxY: number },
-        collisionCheck?: (newX: number, newY: number, oldX: number, oldY: number) => { x: number; y: number }
+        mapBounds?: MapBounds,
+        collisionCheck?: CollisionCheck
     ) {
-        if (direction) {
-            this.setDirection(direction, true)
-            this.isMoving = true
-
-            // Calculate movement distance based on delta time (framerate independent)
-            const moveDistance = this.speed * deltaTime
-
-            // Calculate new position
-            let newX = this.position.x
-            let newY = this.position.y
-
-            switch (direction) {
-                case 'up':
-                    newY -= moveDistance
-                    break
-                case 'down':
-                    newY += moveDistance
-                    break
-                case 'left':
-                    newX -= moveDistance
-                    break
-                case 'right':
-                    newX += moveDistance
-                    break
-            }
+        const vector = direction ? DIRECTION_VECTORS[direction] : null
+        this.moveVector(vector, deltaTime, mapBounds, collisionCheck)
+    }
 
-            // Check collision if callback provided
-            if (collisionCheck) {
-                const validPos = collisionCheck(newX, newY, this.position.x, this.position.y)
-                newX = validPos.x
-                newY = validPos.y
-            }
+    /**
+     * Move along a vector (8-way or analog input)
+     * Vectors longer than 1 are clamped so diagonals aren't faster than straight moves
+     */
+    moveVector(
+        vector: MovementVector | null,
+        deltaTime: number, // Time elapsed since last frame (in seconds)
+        mapBounds?: MapBounds,
+        collisionCheck?: CollisionCheck
+    ) {
+        const length = vector ? Math.hypot(vector.x, vector.y) : 0
+        if (vector && length > 0) {
+            this.setDirection(this.getFacing(vector), true)
+            this.isMoving = true
 
-            // Clamp position within map bounds (with padding)
-            if (mapBounds) {
-                newX = Math.max(mapBounds.minX, Math.min(newX, mapBounds.maxX))
-                newY = Math.max(mapBounds.minY, Math.min(newY, mapBounds.maxY))
-            }
+            const next = computeMoveStep(this.position, vector, deltaTime, this.speed, mapBounds, collisionCheck)
+            this.position.x = next.x
+            this.position.y = next.y
 
-            this.position.x = newX
-            this.position.y = newY
-            this.container.x = this.position.x
-            this.container.y = this.position.y
+            this.pendingInputs.push({ seq: ++this.inputSeq, vector: { x: vector.x, y: vector.y }, deltaTime })
+            if (this.pendingInputs.length > GameConfig.multiplayer.maxPendingInputs) this.pendingInputs.shift()
         } else {
             // Stop moving - set to idle (frame 0 of last direction)
             if (this.isMoving) {
@@ -294,6 +332,67 @@ export class Character {
                 this.isMoving = false
             }
         }
+
+        // Ease out any correction error (frame-rate independent)
+        const decay = Math.exp(-GameConfig.multiplayer.correctionSmoothing * deltaTime)
+        this.renderOffset.x = Math.abs(this.renderOffset.x * decay) < 0.05 ? 0 : this.renderOffset.x * decay
+        this.renderOffset.y = Math.abs(this.renderOffset.y * decay) < 0.05 ? 0 : this.renderOffset.y * decay
+        this.syncContainer()
+    }
+
+    /**
+     * Sequence number of the latest predicted move - sent with the position so the server can refer to it
+     */
+    getInputSeq(): number {
+        return this.inputSeq
+    }
+
+    /**
+     * Server correction: it placed us at (x, y) after processing move `seq`
+     * Moves the server hasn't seen yet are replayed on top through the same collision check,
+     * and the sprite eases from where it was drawn instead of jumping
+     */
+    reconcile(seq: number, x: number, y: number, mapBounds?: MapBounds, collisionCheck?: CollisionCheck) {
+        if (seq < this.teleportSeq) return
+
+        const drawnX = this.position.x + this.renderOffset.x
+        const drawnY = this.position.y + this.renderOffset.y
+
+        this.pendingInputs = this.pendingInputs.filter((input) => input.seq > seq)
+        let next = { x, y }
+        for (const input of this.pendingInputs) {
+            next = computeMoveStep(next, input.vector, input.deltaTime, this.speed, mapBounds, collisionCheck)
+        }
+        this.position.x = next.x
+        this.position.y = next.y
+
+        const offsetX = drawnX - next.x
+        const offsetY = drawnY - next.y
+        const snap = Math.hypot(offsetX, offsetY) > GameConfig.multiplayer.correctionSnapDistance
+        this.renderOffset = snap ? { x: 0, y: 0 } : { x: offsetX, y: offsetY }
+        this.syncContainer()
+    }
+
+    private syncContainer() {
+        this.container.x = this.position.x + this.renderOffset.x
+        this.container.y = this.position.y + this.renderOffset.y
+    }
+
+    /**
+     * Pick the sprite facing for a movement vector
+     * The dominant axis wins; on exact diagonals the current facing is kept if it still applies,
+     * otherwise the side-walk sprite is used
+     */
+    private getFacing(vector: MovementVector): Direction {
+        const horizontal: Direction = vector.x < 0 ? 'left' : 'right'
+        const vertical: Direction = vector.y < 0 ? 'up' : 'down'
+        const absX = Math.abs(vector.x)
+        const absY = Math.abs(vector.y)
+
+        if (absX > absY + 1e-6) return horizontal
+        if (absY > absX + 1e-6) return vertical
+        if (this.currentDirection === horizontal || this.currentDirection === vertical) return this.currentDirection
+        return horizontal
     }
 
     update() {
@@ -304,6 +403,16 @@ export class Character {
         return this.container
     }
 
+    // Teleport (e.g. map transitions) - bypasses collision and bounds
+    setPosition(x: number, y: number) {
+        this.position.x = x
+        this.position.y = y
+        this.pendingInputs = []
+        this.teleportSeq = ++this.inputSeq // Own seq, so an ack of the last pre-teleport move counts as stale
+        this.renderOffset = { x: 0, y: 0 }
+        this.syncContainer()
+    }
+
     getPosition(): { x: number; y: number } {
         return this.position
     }
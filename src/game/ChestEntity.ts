@@ -1,5 +1,7 @@
 import * as PIXI from 'pixi.js'
 
+const CHEST_INTERACT_RADIUS = 48 // Increased to match 1.5x chest scale
+
 export interface ChestData {
     id: string
     x: number
@@ -26,6 +28,14 @@ export class ChestEntity {
         legendary: { folder: 'legend', prefix: 'rare' },
     }
 
+    // Marker colors for the minimap and off-screen indicators
+    private static readonly RARITY_COLORS: Record<string, string> = {
+        wood: '#b7794a',
+        common: '#cbd5e1',
+        rare: '#facc15',
+        legendary: '#c084fc',
+    }
+
     constructor(data: ChestData) {
         this.chestId = data.id
         this.x = data.x
@@ -121,10 +131,22 @@ export class ChestEntity {
         return this.chestId
     }
 
+    static getInteractRadius(): number {
+        return CHEST_INTERACT_RADIUS
+    }
+
     getPosition(): { x: number; y: number } {
         return { x: this.x, y: this.y }
     }
 
+    getRarity(): string {
+        return this.rarity
+    }
+
+    static getRarityColor(rarity: string): string {
+        return ChestEntity.RARITY_COLORS[rarity] ?? ChestEntity.RARITY_COLORS.wood
+    }
+
     get isOpeningAnimation(): boolean {
         return this.isOpening
     }
@@ -0,0 +1,136 @@
+import * as PIXI from 'pixi.js'
+
+import { GameConfig } from '../config/gameConfig'
+import type { CollisionShape, Rectangle } from './CollisionManager'
+
+export interface DebugOverlayFrame {
+    hitbox: Rectangle // Player collision box
+    deadzone: Rectangle // Camera deadzone in map coordinates
+    chests: Iterable<{ x: number; y: number }>
+    chestRadius: number
+    bosses: Iterable<{ x: number; y: number }>
+    bossRadius: number
+    path: { x: number; y: number }[] | null // Click-to-move route, starting at the player
+}
+
+/**
+ * Debug overlay drawn over the map container
+ * Shows collision shapes, interaction radii, the camera deadzone and the player hitbox
+ */
+export class CollisionDebugOverlay {
+    private container: PIXI.Container
+    private shapesGraphics: PIXI.Graphics // Redrawn when the map changes
+    private frameGraphics: PIXI.Graphics // Redrawn every frame
+
+    // Colors
+    private readonly shapeColor = 0xff3355
+    private readonly chestColor = 0xffd700
+    private readonly bossColor = 0xff8800
+    private readonly deadzoneColor = 0x33ccff
+    private readonly hitboxColor = 0x33ff66
+    private readonly pathColor = 0xffffff
+
+    constructor() {
+        this.container = new PIXI.Container()
+        this.container.label = 'collision-debug'
+        this.container.eventMode = 'none'
+        this.container.visible = GameConfig.collision.debugDraw
+
+        this.shapesGraphics = new PIXI.Graphics()
+        this.frameGraphics = new PIXI.Graphics()
+        this.container.addChild(this.shapesGraphics, this.frameGraphics)
+    }
+
+    /**
+     * Draw the current map's collision shapes
+     */
+    setShapes(shapes: CollisionShape[]): void {
+        const g = this.shapesGraphics
+        g.clear()
+
+        for (const shape of shapes) {
+            switch (shape.type) {
+                case 'rect':
+                    g.rect(shape.bounds.x, shape.bounds.y, shape.bounds.width, shape.bounds.height)
+                    break
+                case 'polygon':
+                    g.poly(shape.points, true)
+                    break
+                case 'ellipse':
+                    g.ellipse(shape.cx, shape.cy, shape.rx, shape.ry)
+                    break
+                case 'polyline':
+                    // Lines have no area - stroke only
+                    g.poly(shape.points, false)
+                    g.stroke({ color: this.shapeColor, width: 2 })
+                    continue
+                case 'point':
+                    g.circle(shape.x, shape.y, 3)
+                    break
+            }
+            g.fill({ color: this.shapeColor, alpha: 0.25 })
+            g.stroke({ color: this.shapeColor, width: 1 })
+        }
+    }
+
+    /**
+     * Draw per-frame debug info (only while visible)
+     */
+    drawFrame(frame: DebugOverlayFrame): void {
+        if (!this.container.visible) return
+
+        const g = this.frameGraphics
+        g.clear()
+
+        // Interaction radii
+        for (const chest of frame.chests) {
+            g.circle(chest.x, chest.y, frame.chestRadius)
+            g.stroke({ color: this.chestColor, width: 1, alpha: 0.8 })
+        }
+        for (const boss of frame.bosses) {
+            g.circle(boss.x, boss.y, frame.bossRadius)
+            g.stroke({ color: this.bossColor, width: 1, alpha: 0.8 })
+        }
+
+        // Camera deadzone
+        g.rect(frame.deadzone.x, frame.deadzone.y, frame.deadzone.width, frame.deadzone.height)
+        g.stroke({ color: this.deadzoneColor, width: 2, alpha: 0.6 })
+
+        // Click-to-move route
+        if (frame.path && frame.path.length > 1) {
+            g.poly(frame.path, false)
+            g.stroke({ color: this.pathColor, width: 2, alpha: 0.7 })
+            for (const point of frame.path.slice(1)) {
+                g.circle(point.x, point.y, 3)
+            }
+            g.fill({ color: this.pathColor, alpha: 0.9 })
+        }
+
+        // Player hitbox
+        g.rect(frame.hitbox.x, frame.hitbox.y, frame.hitbox.width, frame.hitbox.height)
+        g.fill({ color: this.hitboxColor, alpha: 0.2 })
+        g.stroke({ color: this.hitboxColor, width: 1 })
+    }
+
+    toggle(): void {
+        this.setVisible(!this.container.visible)
+    }
+
+    setVisible(visible: boolean): void {
+        this.container.visible = visible
+        if (!visible) this.frameGraphics.clear()
+        console.log(`🐞 Collision debug overlay ${visible ? 'ON' : 'OFF'}`)
+    }
+
+    isVisible(): boolean {
+        return this.container.visible
+    }
+
+    getContainer(): PIXI.Container {
+        return this.container
+    }
+
+    destroy(): void {
+        this.container.destroy({ children: true })
+    }
+}
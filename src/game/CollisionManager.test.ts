@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+
+import type { TiledObject } from '../types/tiled'
+import { CollisionManager, type Rectangle, boxIntersectsShape, shapeContainsPoint } from './CollisionManager'
+
+// Small seeded PRNG (mulberry32) so every run checks the same queries
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+const MAP_SIZE = 2048
+
+// Every shape kind the loader understands, scattered over the map with random rotations
+const createObjects = (random: () => number, count: number): TiledObject[] =>
+    Array.from({ length: count }, (_, id) => {
+        const base = {
+            id,
+            name: '',
+            type: '',
+            x: random() * MAP_SIZE,
+            y: random() * MAP_SIZE,
+            width: 8 + random() * 160,
+            height: 8 + random() * 160,
+            visible: true,
+            rotation: random() < 0.3 ? random() * 360 : 0,
+        }
+        switch (id % 5) {
+            case 0:
+                return base
+            case 1:
+                return { ...base, ellipse: true }
+            case 2:
+                return {
+                    ...base,
+                    polygon: [
+                        { x: 0, y: 0 },
+                        { x: base.width, y: random() * 40 },
+                        { x: random() * base.width, y: base.height },
+                    ],
+                }
+            case 3:
+                return {
+                    ...base,
+                    polyline: [
+                        { x: 0, y: 0 },
+                        { x: base.width, y: 0 },
+                        { x: base.width, y: base.height },
+                    ],
+                }
+            default:
+                return { ...base, width: 0, height: 0, point: true }
+        }
+    })
+
+// Queries of random size, a quarter snapped onto cell boundaries where bucketing bugs would show
+const createQueries = (random: () => number, count: number, cellSize: number): Rectangle[] =>
+    Array.from({ length: count }, (_, i) => {
+        const query = {
+            x: random() * MAP_SIZE,
+            y: random() * MAP_SIZE,
+            width: random() * 48,
+            height: random() * 48,
+        }
+        if (i % 4 === 0) {
+            query.x = Math.round(query.x / cellSize) * cellSize
+            query.y = Math.round(query.y / cellSize) * cellSize
+        }
+        return query
+    })
+
+describe('CollisionManager spatial hash', () => {
+    it('matches brute force for rect and point queries', () => {
+        const random = createRandom(20250101)
+        const manager = new CollisionManager()
+        manager.loadFromTiledObjects(createObjects(random, 400))
+        const shapes = manager.getCollisionShapes()
+
+        const mismatches = createQueries(random, 20000, 128).filter((query) => {
+            const rectBrute = shapes.some((shape) => boxIntersectsShape(query, shape))
+            const pointBrute = shapes.some((shape) => shapeContainsPoint(query.x, query.y, shape))
+            return (
+                manager.checkRectCollision(query.x, query.y, query.width, query.height) !== rectBrute ||
+                manager.checkPointCollision(query.x, query.y) !== pointBrute
+            )
+        })
+
+        expect(mismatches).toEqual([])
+    })
+
+    it('finds shapes that span many cells', () => {
+        const manager = new CollisionManager()
+        manager.loadFromTiledObjects([
+            { id: 1, name: '', type: '', x: 0, y: 0, width: 1000, height: 20, visible: true },
+        ])
+
+        expect(manager.checkPointCollision(999, 10)).toBe(true)
+        expect(manager.checkRectCollision(640, 15, 4, 4)).toBe(true)
+        expect(manager.checkRectCollision(640, 30, 4, 4)).toBe(false)
+    })
+})
+
+describe('CollisionManager.getValidPosition', () => {
+    const SIZE = 32
+    const createManager = (objects: TiledObject[]) => {
+        const manager = new CollisionManager()
+        manager.loadFromTiledObjects(objects)
+        return manager
+    }
+    // Rect wall whose left face is at x = 200
+    const wall: TiledObject = { id: 1, name: '', type: '', x: 200, y: 0, width: 64, height: 400, visible: true }
+
+    it('stops a straight push into a flat wall without drifting sideways', () => {
+        const manager = createManager([wall])
+        // A step short of the wall face: a 45° deflection would fit, but the push must just stop
+        expect(manager.getValidPosition(186, 100, 180, 100, SIZE, SIZE)).toEqual({ x: 180, y: 100 })
+        // From the other side, pushing left
+        expect(manager.getValidPosition(278, 100, 284, 100, SIZE, SIZE)).toEqual({ x: 284, y: 100 })
+    })
+
+    it('slides along a flat wall on the free axis of a diagonal move', () => {
+        const manager = createManager([wall])
+        expect(manager.getValidPosition(186, 106, 180, 100, SIZE, SIZE)).toEqual({ x: 180, y: 106 })
+    })
+
+    it('deflects a straight push along an angled wall', () => {
+        // Triangle whose hypotenuse runs from (200, 400) up to (400, 200)
+        const manager = createManager([
+            {
+                ...wall,
+                width: 0,
+                height: 0,
+                polygon: [
+                    { x: 0, y: 400 },
+                    { x: 200, y: 200 },
+                    { x: 200, y: 400 },
+                ],
+            },
+        ])
+        // The box corner sits just short of the slope (x + y = 600); pushing right glides up it
+        const next = manager.getValidPosition(306, 264, 300, 264, SIZE, SIZE)
+        expect(next.x).toBeGreaterThan(300)
+        expect(next.y).toBeLessThan(264)
+    })
+})
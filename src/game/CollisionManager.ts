@@ -1,4 +1,5 @@
-import type { TiledObject } from '../types/tiled'
+import { GameConfig } from '../config/gameConfig'
+import type { TiledObject, TiledPoint } from '../types/tiled'
 
 export interface Rectangle {
     x: number
@@ -7,40 +8,335 @@ export interface Rectangle {
     height: number
 }
 
+/**
+ * Collision shape in map coordinates
+ * Every shape carries its bounding box for quick rejection
+ */
+export type CollisionShape =
+    | { type: 'rect'; bounds: Rectangle }
+    | { type: 'polygon'; points: TiledPoint[]; bounds: Rectangle }
+    | { type: 'polyline'; points: TiledPoint[]; bounds: Rectangle }
+    | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number; bounds: Rectangle }
+    | { type: 'point'; x: number; y: number; bounds: Rectangle }
+
+// Segments used to approximate rotated ellipses
+const ELLIPSE_SEGMENTS = 16
+// Grid cell coordinates are offset so negative cells still pack into one numeric key
+const CELL_KEY_OFFSET = 0x8000
+const CELL_KEY_STRIDE = 0x10000
+// Boxes are shrunk by this much for shape tests so touching edges don't count as overlap
+const EPSILON = 1e-6
+
+const boundsOfPoints = (points: TiledPoint[]): Rectangle => {
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    for (const p of points) {
+        minX = Math.min(minX, p.x)
+        minY = Math.min(minY, p.y)
+        maxX = Math.max(maxX, p.x)
+        maxY = Math.max(maxY, p.y)
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+const rectsOverlap = (a: Rectangle, b: Rectangle): boolean =>
+    a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y
+
+const pointInPolygon = (x: number, y: number, points: TiledPoint[]): boolean => {
+    // Ray casting - works for concave polygons too
+    let inside = false
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i]
+        const b = points[j]
+        if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside
+        }
+    }
+    return inside
+}
+
+const segmentIntersectsBox = (a: TiledPoint, b: TiledPoint, box: Rectangle): boolean => {
+    // Liang-Barsky clipping of the segment against the box
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const p = [-dx, dx, -dy, dy]
+    const q = [a.x - box.x, box.x + box.width - a.x, a.y - box.y, box.y + box.height - a.y]
+
+    let t0 = 0
+    let t1 = 1
+    for (let i = 0; i < 4; i++) {
+        if (p[i] === 0) {
+            if (q[i] < 0) return false
+            continue
+        }
+        const t = q[i] / p[i]
+        if (p[i] < 0) {
+            t0 = Math.max(t0, t)
+        } else {
+            t1 = Math.min(t1, t)
+        }
+        if (t0 > t1) return false
+    }
+    return true
+}
+
+const pathIntersectsBox = (points: TiledPoint[], box: Rectangle, closed: boolean): boolean => {
+    const count = closed ? points.length : points.length - 1
+    for (let i = 0; i < count; i++) {
+        if (segmentIntersectsBox(points[i], points[(i + 1) % points.length], box)) return true
+    }
+    return false
+}
+
+export const boxIntersectsShape = (box: Rectangle, shape: CollisionShape): boolean => {
+    if (!rectsOverlap(box, shape.bounds)) return false
+
+    switch (shape.type) {
+        case 'rect':
+            return true
+        case 'point':
+            return true
+        case 'polygon': {
+            const inner = {
+                x: box.x + EPSILON,
+                y: box.y + EPSILON,
+                width: box.width - EPSILON * 2,
+                height: box.height - EPSILON * 2,
+            }
+            // Box fully inside the polygon, or an edge crossing the box
+            return (
+                pointInPolygon(box.x + box.width / 2, box.y + box.height / 2, shape.points) ||
+                pathIntersectsBox(shape.points, inner, true)
+            )
+        }
+        case 'polyline': {
+            const inner = {
+                x: box.x + EPSILON,
+                y: box.y + EPSILON,
+                width: box.width - EPSILON * 2,
+                height: box.height - EPSILON * 2,
+            }
+            return pathIntersectsBox(shape.points, inner, false)
+        }
+        case 'ellipse': {
+            // Scale space so the ellipse becomes a unit circle (axis-aligned boxes stay boxes)
+            const left = (box.x - shape.cx) / shape.rx
+            const right = (box.x + box.width - shape.cx) / shape.rx
+            const top = (box.y - shape.cy) / shape.ry
+            const bottom = (box.y + box.height - shape.cy) / shape.ry
+            const closestX = Math.max(left, Math.min(0, right))
+            const closestY = Math.max(top, Math.min(0, bottom))
+            return closestX * closestX + closestY * closestY < 1
+        }
+    }
+}
+
+export const shapeContainsPoint = (x: number, y: number, shape: CollisionShape): boolean => {
+    switch (shape.type) {
+        case 'rect': {
+            const rect = shape.bounds
+            return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
+        }
+        case 'polygon':
+            return pointInPolygon(x, y, shape.points)
+        case 'ellipse': {
+            const nx = (x - shape.cx) / shape.rx
+            const ny = (y - shape.cy) / shape.ry
+            return nx * nx + ny * ny <= 1
+        }
+        case 'polyline':
+        case 'point':
+            // No area to stand inside
+            return false
+    }
+}
+
+// True when an edge that is neither horizontal nor vertical (ellipse outline, angled polygon side) touches the box
+const boxTouchesSlope = (box: Rectangle, shape: CollisionShape): boolean => {
+    if (!rectsOverlap(box, shape.bounds)) return false
+
+    switch (shape.type) {
+        case 'rect':
+        case 'point':
+            return false
+        case 'ellipse':
+            return boxIntersectsShape(box, shape)
+        case 'polygon':
+        case 'polyline': {
+            const { points } = shape
+            const count = shape.type === 'polygon' ? points.length : points.length - 1
+            for (let i = 0; i < count; i++) {
+                const a = points[i]
+                const b = points[(i + 1) % points.length]
+                const angled = Math.abs(b.x - a.x) > EPSILON && Math.abs(b.y - a.y) > EPSILON
+                if (angled && segmentIntersectsBox(a, b, box)) return true
+            }
+            return false
+        }
+    }
+}
+
+const cellKey = (cellX: number, cellY: number): number =>
+    (cellX + CELL_KEY_OFFSET) * CELL_KEY_STRIDE + (cellY + CELL_KEY_OFFSET)
+
 export class CollisionManager {
-    private collisionRects: Rectangle[] = []
+    private collisionShapes: CollisionShape[] = []
+
+    // Spatial hash broadphase: cell key -> indices of shapes whose bounds touch the cell
+    private cellSize: number = GameConfig.collision.cellSize
+    private grid = new Map<number, number[]>()
+    // Per-shape stamp so a shape spanning several cells is only tested once per query
+    private visitStamps = new Uint32Array(0)
+    private queryStamp = 0
 
     /**
      * Load collision objects from Tiled Object Layer
      * All objects from objectgroup layers are treated as collision walls
+     * Rectangles, polygons, polylines, ellipses and points keep their real shape
      */
     loadFromTiledObjects(objects: TiledObject[]) {
-        this.collisionRects = objects.map((obj) => ({
-            x: obj.x,
-            y: obj.y,
-            width: obj.width,
-            height: obj.height,
-        }))
+        this.collisionShapes = objects
+            .map((obj) => CollisionManager.shapeFromObject(obj))
+            .filter((shape): shape is CollisionShape => shape !== null)
+        this.buildGrid()
 
-        // console.log(`Loaded ${this.collisionRects.length} collision objects from objectgroup layers`)
+        // console.log(`Loaded ${this.collisionShapes.length} collision objects from objectgroup layers`)
+    }
+
+    /**
+     * Convert a Tiled object to a collision shape in map coordinates
+     * Rotated rectangles and ellipses become polygons
+     */
+    private static shapeFromObject(obj: TiledObject): CollisionShape | null {
+        const angle = ((obj.rotation ?? 0) * Math.PI) / 180
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        // Tiled rotates objects clockwise around their (x, y) origin
+        const toMap = (localX: number, localY: number): TiledPoint => ({
+            x: obj.x + localX * cos - localY * sin,
+            y: obj.y + localX * sin + localY * cos,
+        })
+
+        if (obj.point) {
+            return { type: 'point', x: obj.x, y: obj.y, bounds: { x: obj.x, y: obj.y, width: 0, height: 0 } }
+        }
+
+        if (obj.polygon && obj.polygon.length >= 3) {
+            const points = obj.polygon.map((p) => toMap(p.x, p.y))
+            return { type: 'polygon', points, bounds: boundsOfPoints(points) }
+        }
+
+        if (obj.polyline && obj.polyline.length >= 2) {
+            const points = obj.polyline.map((p) => toMap(p.x, p.y))
+            return { type: 'polyline', points, bounds: boundsOfPoints(points) }
+        }
+
+        if (obj.ellipse) {
+            if (obj.width <= 0 || obj.height <= 0) return null
+
+            const rx = obj.width / 2
+            const ry = obj.height / 2
+            if (angle === 0) {
+                return {
+                    type: 'ellipse',
+                    cx: obj.x + rx,
+                    cy: obj.y + ry,
+                    rx,
+                    ry,
+                    bounds: { x: obj.x, y: obj.y, width: obj.width, height: obj.height },
+                }
+            }
+
+            const points: TiledPoint[] = []
+            for (let i = 0; i < ELLIPSE_SEGMENTS; i++) {
+                const t = (i / ELLIPSE_SEGMENTS) * Math.PI * 2
+                points.push(toMap(rx + Math.cos(t) * rx, ry + Math.sin(t) * ry))
+            }
+            return { type: 'polygon', points, bounds: boundsOfPoints(points) }
+        }
+
+        if (angle !== 0) {
+            const points = [toMap(0, 0), toMap(obj.width, 0), toMap(obj.width, obj.height), toMap(0, obj.height)]
+            return { type: 'polygon', points, bounds: boundsOfPoints(points) }
+        }
+
+        return { type: 'rect', bounds: { x: obj.x, y: obj.y, width: obj.width, height: obj.height } }
+    }
+
+    /**
+     * Insert every shape into the cells its bounding box touches
+     */
+    private buildGrid() {
+        this.grid.clear()
+        this.visitStamps = new Uint32Array(this.collisionShapes.length)
+        this.queryStamp = 0
+
+        this.collisionShapes.forEach((shape, index) => {
+            const { x, y, width, height } = shape.bounds
+            const minCellX = Math.floor(x / this.cellSize)
+            const minCellY = Math.floor(y / this.cellSize)
+            const maxCellX = Math.floor((x + width) / this.cellSize)
+            const maxCellY = Math.floor((y + height) / this.cellSize)
+
+            for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+                for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+                    const key = cellKey(cellX, cellY)
+                    const cell = this.grid.get(key)
+                    if (cell) {
+                        cell.push(index)
+                    } else {
+                        this.grid.set(key, [index])
+                    }
+                }
+            }
+        })
+    }
+
+    /**
+     * Run the test against each shape sharing a grid cell with the box, stopping at the first hit
+     */
+    private someInCells(box: Rectangle, test: (shape: CollisionShape) => boolean): boolean {
+        const minCellX = Math.floor(box.x / this.cellSize)
+        const minCellY = Math.floor(box.y / this.cellSize)
+        const maxCellX = Math.floor((box.x + box.width) / this.cellSize)
+        const maxCellY = Math.floor((box.y + box.height) / this.cellSize)
+
+        this.queryStamp++
+        if (this.queryStamp === 0xffffffff) {
+            this.visitStamps.fill(0)
+            this.queryStamp = 1
+        }
+
+        for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+            for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+                const cell = this.grid.get(cellKey(cellX, cellY))
+                if (!cell) continue
+
+                for (const index of cell) {
+                    if (this.visitStamps[index] === this.queryStamp) continue
+                    this.visitStamps[index] = this.queryStamp
+                    if (test(this.collisionShapes[index])) return true
+                }
+            }
+        }
+        return false
     }
 
     /**
      * Check if a point collides with any collision object
      */
     checkPointCollision(x: number, y: number): boolean {
-        return this.collisionRects.some(
-            (rect) => x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
-        )
+        return this.someInCells({ x, y, width: 0, height: 0 }, (shape) => shapeContainsPoint(x, y, shape))
     }
 
     /**
      * Check if a rectangle collides with any collision object
      */
     checkRectCollision(x: number, y: number, width: number, height: number): boolean {
-        return this.collisionRects.some(
-            (rect) => x < rect.x + rect.width && x + width > rect.x && y < rect.y + rect.height && y + height > rect.y
-        )
+        const box = { x, y, width, height }
+        return this.someInCells(box, (shape) => boxIntersectsShape(box, shape))
     }
 
     /**
@@ -58,33 +354,42 @@ export class CollisionManager {
         // Calculate entity bounds (centered anchor at 0.5, 0.5)
         const halfWidth = entityWidth / 2
         const halfHeight = entityHeight / 2
-
-        const newLeft = newX - halfWidth
-        const newTop = newY - halfHeight
+        const isBlocked = (x: number, y: number) =>
+            this.checkRectCollision(x - halfWidth, y - halfHeight, entityWidth, entityHeight)
 
         // Check if new position collides
-        if (!this.checkRectCollision(newLeft, newTop, entityWidth, entityHeight)) {
+        if (!isBlocked(newX, newY)) {
             return { x: newX, y: newY }
         }
 
-        // Try sliding along X axis
-        const slideX = newX
-        const slideY = oldY
-        const slideLeft = slideX - halfWidth
-        const slideTop = slideY - halfHeight
+        const dx = newX - oldX
+        const dy = newY - oldY
 
-        if (!this.checkRectCollision(slideLeft, slideTop, entityWidth, entityHeight)) {
-            return { x: slideX, y: slideY }
+        // Try sliding along X axis, then along Y axis (a straight move has nothing to slide on)
+        if (dx !== 0 && dy !== 0) {
+            if (!isBlocked(newX, oldY)) {
+                return { x: newX, y: oldY }
+            }
+            if (!isBlocked(oldX, newY)) {
+                return { x: oldX, y: newY }
+            }
         }
 
-        // Try sliding along Y axis
-        const slideX2 = oldX
-        const slideY2 = newY
-        const slideLeft2 = slideX2 - halfWidth
-        const slideTop2 = slideY2 - halfHeight
+        // Flat walls stop the move; only angled edges deflect it
+        const box = { x: newX - halfWidth, y: newY - halfHeight, width: entityWidth, height: entityHeight }
+        if (!this.someInCells(box, (shape) => boxTouchesSlope(box, shape))) {
+            return { x: oldX, y: oldY }
+        }
 
-        if (!this.checkRectCollision(slideLeft2, slideTop2, entityWidth, entityHeight)) {
-            return { x: slideX2, y: slideY2 }
+        // Angled walls: deflect the move by 45° either way so the entity glides along the slope
+        for (const angle of [Math.PI / 4, -Math.PI / 4]) {
+            const cos = Math.cos(angle)
+            const sin = Math.sin(angle)
+            const slideX = oldX + (dx * cos - dy * sin) * Math.SQRT1_2
+            const slideY = oldY + (dx * sin + dy * cos) * Math.SQRT1_2
+            if (!isBlocked(slideX, slideY)) {
+                return { x: slideX, y: slideY }
+            }
         }
 
         // Can't move, return old position
@@ -92,16 +397,24 @@ export class CollisionManager {
     }
 
     /**
-     * Get all collision rectangles (for debugging)
+     * Get all collision shapes (for debugging)
+     */
+    getCollisionShapes(): CollisionShape[] {
+        return this.collisionShapes
+    }
+
+    /**
+     * Get bounding rectangles of all collision shapes (for debugging)
      */
     getCollisionRects(): Rectangle[] {
-        return this.collisionRects
+        return this.collisionShapes.map((shape) => shape.bounds)
     }
 
     /**
      * Clear all collision data
      */
     clear() {
-        this.collisionRects = []
+        this.collisionShapes = []
+        this.buildGrid()
     }
 }
@@ -357,7 +357,13 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                         const pos = characterRef.current.getPosition()
                         const dir = characterRef.current.getCurrentDirection()
                         // Always send updates to keep sync, but include isMoving flag
-                        multiplayerRef.current.sendPosition(pos.x, pos.y, dir, isMoving)
+                        multiplayerRef.current.sendPosition(
+                            pos.x,
+                            pos.y,
+                            dir,
+                            isMoving,
+                            characterRef.current.getInputSeq()
+                        )
                     }
 
                     // Camera follow with deadzone
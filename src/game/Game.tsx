@@ -1,16 +1,39 @@
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import * as PIXI from 'pixi.js'
 
 import { GameConfig } from '../config/gameConfig'
-import { CollisionManager } from './CollisionManager'
-import { type WorldMessageData } from './MultiplayerManager'
-import { TiledMapLoader } from './TiledMapLoader'
+import { BossEntity } from './BossEntity'
+import { Camera } from './Camera'
+import { ChestEntity } from './ChestEntity'
+import { CollisionDebugOverlay } from './CollisionDebugOverlay'
+import { CollisionManager, type Rectangle } from './CollisionManager'
+import { InputHandler } from './InputHandler'
+import { InputRecorder, type InputRecording, InputReplayer, parseRecording, serializeRecording } from './InputRecorder'
+import {
+    type KeyBindings,
+    getKeyBindingsUpdatedAt,
+    loadKeyBindings,
+    loadKeyBindingsUpdatedAt,
+    normalizeKeyBindings,
+    saveKeyBindings,
+} from './KeyBindings'
+import { type ConnectionState, type WorldMessageData } from './MultiplayerManager'
+import { NavigationGrid, type PathPoint } from './NavigationGrid'
+import { OffscreenIndicators } from './OffscreenIndicators'
+import { type MapTransition, TiledMapLoader, resolveMapPath } from './TiledMapLoader'
 import { GameOverlays } from './components/GameOverlays'
 import { GameUI } from './components/GameUI'
+import { type MinimapMarkers } from './components/Minimap'
+import { ReconnectingOverlay } from './components/ReconnectingOverlay'
+import { SpectatorHUD } from './components/SpectatorHUD'
+import { TouchControls } from './components/TouchControls'
 import { EQUIPMENT_BY_ID } from './equipment/EquipmentConfig'
 import { type CatalogEquipmentItem, type PlayerEquipment } from './equipment/types'
 import { useGameEngine } from './hooks/useGameEngine'
-import { useGameLoop } from './hooks/useGameLoop'
+import { type WalkTarget, useGameLoop } from './hooks/useGameLoop'
 import { useGameState } from './hooks/useGameState'
+import { useSpectatorCamera } from './hooks/useSpectatorCamera'
 
 const mapServerCatalogToFrontend = (items: unknown[]): CatalogEquipmentItem[] => {
     const allowedSlots = new Set(['head', 'armor', 'foot'])
@@ -40,7 +63,13 @@ const mapServerCatalogToFrontend = (items: unknown[]): CatalogEquipmentItem[] =>
         .filter((item): item is CatalogEquipmentItem => item !== null)
 }
 
-export const Game = ({ playerName = '' }: { playerName?: string }) => {
+// localStorage flag for the off-screen chest/boss arrows ('off' hides them)
+const OFFSCREEN_INDICATORS_STORAGE_KEY = 'offscreenIndicators'
+
+/**
+ * @param spectator watch the map without a character (free camera, follow players from the ranking)
+ */
+export const Game = ({ playerName = '', spectator = false }: { playerName?: string; spectator?: boolean }) => {
     const canvasRef = useRef<HTMLDivElement | null>(null)
     const [currentUsername, setCurrentUsername] = useState(playerName)
     const [currentEmail, setCurrentEmail] = useState('')
@@ -95,11 +124,95 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
         setBossSpawnCountdown,
         characterReady,
         setCharacterReady,
+        currentMapId,
+        setCurrentMapId,
     } = useGameState()
 
-    // Map dimensions (set after map loads)
-    const mapDimensionsRef = useRef({ width: 3072, height: 3072 })
+    // Map extent in pixels (set after map loads); infinite maps can start at negative coordinates
+    const mapAreaRef = useRef<Rectangle>({ x: 0, y: 0, width: 3072, height: 3072 })
     const collisionManagerRef = useRef<CollisionManager>(new CollisionManager())
+    const debugOverlayRef = useRef<CollisionDebugOverlay | null>(null)
+    const offscreenIndicatorsRef = useRef<OffscreenIndicators | null>(null)
+    const cameraRef = useRef<Camera | null>(null)
+    const walkTargetRef = useRef<WalkTarget | null>(null)
+    const navigationGridRef = useRef<NavigationGrid>(new NavigationGrid())
+    // Input recording / replay for reproducing movement bugs
+    const inputRecorderRef = useRef<InputRecorder>(new InputRecorder())
+    const replayerRef = useRef<InputReplayer | null>(null)
+    const [isRecordingInput, setIsRecordingInput] = useState(false)
+    const [showOffscreenIndicators, setShowOffscreenIndicators] = useState(
+        () => localStorage.getItem(OFFSCREEN_INDICATORS_STORAGE_KEY) !== 'off'
+    )
+    const [isReplayingInput, setIsReplayingInput] = useState(false)
+    // Spectator mode
+    const [spectatorReady, setSpectatorReady] = useState(false)
+    const [followedPlayerId, setFollowedPlayerId] = useState<string | null>(null)
+    const [connection, setConnection] = useState<{ state: ConnectionState; attempt: number }>({
+        state: 'connected',
+        attempt: 0,
+    })
+    // Read from socket callbacks, which only see the first render's state
+    const questionDataRef = useRef(questionData)
+    // Minimap image for the current map, and the waypoint set by clicking it
+    const [minimap, setMinimap] = useState<{
+        background: HTMLCanvasElement | null
+        mapArea: Rectangle
+    } | null>(null)
+    const waypointRef = useRef<PathPoint | null>(null)
+
+    // Find a route on the navigation grid and start walking it (cancelled by any movement input)
+    const walkTo = (point: PathPoint, stopDistance: number): boolean => {
+        const character = characterRef.current
+        if (!character || character.isBusy()) return false
+
+        const path = navigationGridRef.current.findPath(character.getPosition(), point)
+        if (!path) {
+            setNotification('そこへは移動できません')
+            setTimeout(() => setNotification(null), 1500)
+            return false
+        }
+        walkTargetRef.current = { path, stopDistance }
+        return true
+    }
+
+    // Spectator: follow a remote player (only players on the same map are rendered)
+    const followPlayer = (playerId: string) => {
+        const camera = cameraRef.current
+        const remotePlayer = remotePlayersRef.current.get(playerId)
+        if (!camera) return
+        if (!remotePlayer) {
+            setNotification('このプレイヤーは別のマップにいます')
+            setTimeout(() => setNotification(null), 1800)
+            return
+        }
+        camera.setTarget(remotePlayer)
+        setFollowedPlayerId(playerId)
+    }
+
+    const walkToNearestChest = () => {
+        const character = characterRef.current
+        if (!character) return
+
+        // Try chests closest-first until one has a route
+        const { x, y } = character.getPosition()
+        const chests = Array.from(chestsRef.current.values(), (chest) => chest.getPosition()).sort(
+            (a, b) => Math.hypot(a.x - x, a.y - y) - Math.hypot(b.x - x, b.y - y)
+        )
+        for (const chest of chests) {
+            const path = navigationGridRef.current.findPath({ x, y }, chest)
+            if (path) {
+                walkTargetRef.current = { path, stopDistance: ChestEntity.getInteractRadius() * 0.8 }
+                return
+            }
+        }
+        setNotification('近くに宝箱がありません')
+        setTimeout(() => setNotification(null), 1500)
+    }
+    const [isTouchDevice] = useState(() => InputHandler.isTouchDevice())
+    const [keyBindings, setKeyBindings] = useState<KeyBindings>(loadKeyBindings)
+    const [isEditingKeyBindings, setIsEditingKeyBindings] = useState(false)
+    const mapTransitionsRef = useRef<MapTransition[]>([])
+    const changeMapRef = useRef<((transition: MapTransition) => Promise<void>) | null>(null)
 
     // Load map and initialize game systems
     useEffect(() => {
@@ -108,57 +221,232 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
         let isMounted = true
         const app = appRef.current
         let localMultiplayer: { disconnect: () => void } | null = null
+        let localMapLoader: TiledMapLoader | null = null
+        let entityLayer = new PIXI.Container() // Replaced by the loaded map's entity layer
+        let isChangingMap = false
         const remotePlayers = remotePlayersRef.current
+        const debugOverlay = new CollisionDebugOverlay()
+        debugOverlayRef.current = debugOverlay
+        const offscreenIndicators = new OffscreenIndicators(app.screen)
+        offscreenIndicatorsRef.current = offscreenIndicators
+        const camera = new Camera(app.screen)
+        camera.attach(app.canvas)
+        cameraRef.current = camera
 
-        const initGame = async () => {
+        // Tapping (or clicking) a chest, a boss or the ground walks the character there
+        const handleStageTap = (e: PIXI.FederatedPointerEvent) => {
+            const mapContainer = mapContainerRef.current
+            if (e.pointerType === 'mouse' && e.button !== 0) return
+            // Releasing a pinch zoom or drag pan isn't a tap
+            if (!mapContainer || camera.isGesturing()) return
+
+            // Spectators have no character - clicking a player follows them instead
+            if (spectator) {
+                const tappedPlayer = Array.from(remotePlayersRef.current.values()).find((player) =>
+                    player.getContainer().getBounds().containsPoint(e.global.x, e.global.y)
+                )
+                if (tappedPlayer) followPlayer(tappedPlayer.getPlayerId())
+                return
+            }
+
+            const targets = [
+                ...Array.from(chestsRef.current.values(), (chest) => ({
+                    entity: chest,
+                    radius: ChestEntity.getInteractRadius(),
+                })),
+                ...Array.from(bossesRef.current.values(), (boss) => ({
+                    entity: boss,
+                    radius: BossEntity.getInteractRadius(),
+                })),
+            ]
+            const tapped = targets.find(({ entity }) =>
+                entity.getContainer().getBounds().containsPoint(e.global.x, e.global.y)
+            )
+            if (tapped) {
+                // Stop a bit inside the interaction radius
+                walkTo(tapped.entity.getPosition(), tapped.radius * 0.8)
+            } else {
+                walkTo(mapContainer.toLocal(e.global), 0)
+            }
+        }
+        app.stage.eventMode = 'static'
+        app.stage.hitArea = app.screen
+        app.stage.on('pointertap', handleStageTap)
+
+        // Remote players interpolate between buffered snapshots every frame (spectators included)
+        const updateRemotePlayers = () => {
+            const now = performance.now()
+            remotePlayersRef.current.forEach((player) => player.update(now))
+        }
+        app.ticker.add(updateRemotePlayers)
+
+        // Load a map and make it the current world
+        // The previous map (and every remote entity on it) is torn down; the local character moves over
+        const loadWorldMap = async (mapId: string): Promise<TiledMapLoader> => {
+            const mapLoader = new TiledMapLoader()
+            const mapContainer = await mapLoader.loadMap(resolveMapPath(mapId), app.renderer)
+            // Move the debug overlay over before the old map (and its children) are destroyed
+            mapContainer.addChild(debugOverlay.getContainer())
+
+            if (localMapLoader) {
+                clearMapEntities()
+                if (characterRef.current) entityLayer.removeChild(characterRef.current.getContainer())
+                app.stage.removeChild(localMapLoader.getContainer())
+                localMapLoader.destroy()
+            }
+
+            mapContainerRef.current = mapContainer
+            app.stage.addChild(mapContainer)
+            // Screen-space arrows stay above the map
+            app.stage.addChild(offscreenIndicators.getContainer())
+            mapLoader.attach(app.ticker, app.screen)
+            localMapLoader = mapLoader
+            mapTransitionsRef.current = mapLoader.getTransitions()
+
+            // Characters, chests and bosses are y-sorted between the tile layers
+            entityLayer = mapLoader.getEntityLayer()
+            if (characterRef.current) entityLayer.addChild(characterRef.current.getContainer())
+
+            // Get map dimensions
+            const mapData = mapLoader.getMapData()
+            if (mapData) {
+                // Use the tile extents so infinite maps get their real size
+                const { x, y, width, height } = mapLoader.getPixelBounds()
+                mapAreaRef.current = { x, y, width, height }
+                console.log(`Map size: ${width}x${height} pixels (origin ${x},${y})`)
+                console.log(`Grid: ${mapData.width}x${mapData.height} tiles`)
+
+                // Camera applies zoom and keeps the view inside the new map
+                camera.setContainer(mapContainer, mapAreaRef.current)
+
+                setMinimap({
+                    background: mapLoader.renderMinimap(app.renderer, GameConfig.minimap.size),
+                    mapArea: mapAreaRef.current,
+                })
+            }
+
+            // Load collision objects from map
+            const collisionObjects = mapLoader.getCollisionObjects()
+            collisionManagerRef.current.loadFromTiledObjects(collisionObjects)
+            debugOverlay.setShapes(collisionManagerRef.current.getCollisionShapes())
+
+            // Click-to-move grid covers the area the character can reach (map minus padding)
+            const { padding } = GameConfig.map
+            const mapArea = mapAreaRef.current
+            navigationGridRef.current.build(
+                collisionManagerRef.current,
+                {
+                    x: mapArea.x + padding,
+                    y: mapArea.y + padding,
+                    width: mapArea.width - padding * 2,
+                    height: mapArea.height - padding * 2,
+                },
+                GameConfig.character.size,
+                GameConfig.character.size
+            )
+
+            await loadBossSpawns(mapId)
+
+            return mapLoader
+        }
+
+        // Load boss spawns from server and render on map (replaces any bosses already shown)
+        const loadBossSpawns = async (mapId: string) => {
             try {
-                // Load and render map
-                const mapLoader = new TiledMapLoader()
-                const mapContainer = await mapLoader.loadMap('/maps/map.tmj')
-                mapContainerRef.current = mapContainer
-                app.stage.addChild(mapContainer)
-
-                // Get map dimensions
-                const mapData = mapLoader.getMapData()
-                if (mapData) {
-                    const mapWidth = mapData.width * mapData.tilewidth
-                    const mapHeight = mapData.height * mapData.tileheight
-                    mapDimensionsRef.current = { width: mapWidth, height: mapHeight }
-                    console.log(`Map size: ${mapWidth}x${mapHeight} pixels`)
-                    console.log(`Grid: ${mapData.width}x${mapData.height} tiles`)
-
-                    // Set 1:1 scale (100% zoom, no scaling)
-                    mapContainer.scale.set(1)
+                const { gameAPI } = await import('../services/api')
+                const { BossEntity } = await import('./BossEntity')
+                const layer = entityLayer
+                const bossResult = await gameAPI.getBossSpawns(mapId)
+                // The map changed while the request was in flight
+                if (!isMounted || layer !== entityLayer) return
+                if (bossResult.success && bossResult.bosses) {
+                    console.log(`👹 Loading ${bossResult.bosses.length} boss spawns`)
+                    bossesRef.current.forEach((boss) => boss.destroy())
+                    bossesRef.current.clear()
+                    for (const bossData of bossResult.bosses) {
+                        const bossEntity = new BossEntity(bossData)
+                        entityLayer.addChild(bossEntity.getContainer())
+                        bossesRef.current.set(bossData.id, bossEntity)
+                    }
                 }
+            } catch (e) {
+                console.warn('Failed to load boss spawns:', e)
+            }
+        }
 
-                // Load collision objects from map
-                const collisionObjects = mapLoader.getCollisionObjects()
-                collisionManagerRef.current.loadFromTiledObjects(collisionObjects)
+        // Remove remote players, chests and bosses belonging to the current map
+        const clearMapEntities = () => {
+            remotePlayersRef.current.forEach((player) => player.destroy())
+            remotePlayersRef.current.clear()
+            chestsRef.current.forEach((chest) => chest.destroy())
+            chestsRef.current.clear()
+            bossesRef.current.forEach((boss) => boss.destroy())
+            bossesRef.current.clear()
 
-                // Load boss spawns from server and render on map
-                try {
-                    const { gameAPI } = await import('../services/api')
-                    const { BossEntity } = await import('./BossEntity')
-                    const bossResult = await gameAPI.getBossSpawns()
-                    if (bossResult.success && bossResult.bosses) {
-                        console.log(`👹 Loading ${bossResult.bosses.length} boss spawns`)
-                        for (const bossData of bossResult.bosses) {
-                            const bossEntity = new BossEntity(bossData)
-                            mapContainer.addChild(bossEntity.getContainer())
-                            bossesRef.current.set(bossData.id, bossEntity)
-                        }
-                    }
-                } catch (e) {
-                    console.warn('Failed to load boss spawns:', e)
+            nearbyChestRef.current = null
+            nearbyBossRef.current = null
+            walkTargetRef.current = null
+            waypointRef.current = null
+            setNearbyChest(null)
+            setNearbyChestPos(null)
+            setNearbyBoss(null)
+            setNearbyBossPos(null)
+        }
+
+        // Walked onto a transition: load the target map, place the player on the named spawn, switch rooms
+        changeMapRef.current = async (transition: MapTransition) => {
+            if (isChangingMap) return
+            isChangingMap = true
+
+            try {
+                const mapLoader = await loadWorldMap(transition.targetMap)
+                if (!isMounted) return
+
+                const spawn = transition.targetSpawn ? mapLoader.getSpawnPoint(transition.targetSpawn) : null
+                if (!spawn) {
+                    console.warn(`Spawn point "${transition.targetSpawn}" not found on map ${transition.targetMap}`)
                 }
+                const mapArea = mapAreaRef.current
+                const x = spawn?.x ?? mapArea.x + mapArea.width / 2
+                const y = spawn?.y ?? mapArea.y + mapArea.height / 2
+
+                characterRef.current?.setPosition(x, y)
+
+                // Center camera on character immediately
+                camera.lookAt(x, y)
 
-                // Initialize input handler
-                const { InputHandler } = await import('./InputHandler')
+                multiplayerRef.current?.changeMap(transition.targetMap, x, y)
+                setCurrentMapId(transition.targetMap)
+            } catch (error) {
+                console.error('Failed to change map:', error)
+                setNotification('マップの読み込みに失敗しました')
+                setTimeout(() => setNotification(null), 2000)
+            } finally {
+                isChangingMap = false
+            }
+        }
+
+        const initGame = async () => {
+            try {
+                // Load and render the starting map
+                await loadWorldMap(GameConfig.map.defaultMapId)
+
+                if (spectator) {
+                    // Free camera: start over the middle of the map, zoomed out further than players can
+                    camera.setZoomLimits(GameConfig.camera.spectatorMinZoom, GameConfig.camera.maxZoom)
+                    camera.setDragPan(true)
+                    camera.onFollowStopped(() => setFollowedPlayerId(null))
+                    const mapArea = mapAreaRef.current
+                    camera.lookAt(mapArea.x + mapArea.width / 2, mapArea.y + mapArea.height / 2)
+                }
+
+                // Initialize input handler (with this user's saved key bindings)
                 const inputHandler = new InputHandler()
                 inputHandlerRef.current = inputHandler
 
                 // Register F key interaction handler
                 inputHandler.onInteract(() => {
+                    inputRecorderRef.current.markInteract()
                     // Chest interaction takes priority
                     if (nearbyChestRef.current && multiplayerRef.current) {
                         console.log('🎯 Interacting with chest:', nearbyChestRef.current)
@@ -169,6 +457,17 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                     }
                 })
 
+                // Walk to the closest chest we can actually reach
+                inputHandler.onWalkToNearestChest(() => walkToNearestChest())
+
+                // Menu keys / gamepad buttons
+                inputHandler.onToggleEmojiPicker(() => setShowEmojiPicker((prev) => !prev))
+                inputHandler.onToggleInventory(() => setShowInventory((prev) => !prev))
+                inputHandler.onToggleShop(() => setShowShop((prev) => !prev))
+
+                // Debug overlay hotkey
+                inputHandler.onToggleDebug(() => debugOverlay.toggle())
+
                 // Initialize multiplayer AFTER map is loaded
                 if (GameConfig.multiplayer.enabled && !multiplayerRef.current) {
                     const { MultiplayerManager } = await import('./MultiplayerManager')
@@ -177,7 +476,43 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                     const ChestEntityModule = await import('./ChestEntity')
 
                     const multiplayer = new MultiplayerManager({
-                        onGameInit: async (initData) => {
+                        onConnectionStateChange: (state, attempt) => {
+                            setConnection({ state, attempt })
+                            if (state !== 'connected') return
+
+                            // Back online: drop everything the server may have changed while we were away,
+                            // the fresh 'game:init' and spawn events rebuild it (the local character stays)
+                            if (camera.getTarget() !== characterRef.current) camera.stopFollowing()
+                            clearMapEntities()
+                            // 'game:init' only carries players and chests - bosses come from the REST snapshot
+                            void loadBossSpawns(multiplayerRef.current?.getMapId() ?? GameConfig.map.defaultMapId)
+                        },
+                        onGameInit: async (initData, resumed) => {
+                            if (resumed) {
+                                // Reopen a question the server still holds, or close one it dropped
+                                const active = initData.activeQuestion
+                                if (active?.type === 'chest') {
+                                    setQuestionData({
+                                        chestId: active.chestId,
+                                        question: active.question,
+                                        timeLimit: active.timeLimit,
+                                    })
+                                } else if (active?.type === 'boss') {
+                                    setQuestionData({
+                                        bossSpawnId: active.bossSpawnId,
+                                        questionId: active.questionId,
+                                        question: active.question,
+                                        timeLimit: active.timeLimit,
+                                    })
+                                } else if (questionDataRef.current) {
+                                    setQuestionData(null)
+                                    setIsGrading(false)
+                                    characterRef.current?.setStatus('idle')
+                                    setNotification('接続が切れたため問題が終了しました')
+                                    setTimeout(() => setNotification(null), 2500)
+                                }
+                            }
+
                             const localPlayerData = initData.players.find((p) => p.id === initData.playerId)
                             if (localPlayerData && !characterRef.current) {
                                 console.log(
@@ -194,11 +529,11 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                                 await character.init()
                                 characterRef.current = character
                                 setEquippedItems(localPlayerData.equipment || null)
-                                mapContainer.addChild(character.getContainer())
+                                entityLayer.addChild(character.getContainer())
 
-                                // Center camera on character immediately
-                                mapContainer.x = window.innerWidth / 2 - localPlayerData.x
-                                mapContainer.y = window.innerHeight / 2 - localPlayerData.y
+                                // Follow the character, starting centered on it
+                                camera.setTarget(character)
+                                camera.snapToTarget()
 
                                 setCharacterReady(true)
                             }
@@ -213,7 +548,7 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                                 player.equipment
                             )
                             await remotePlayer.init()
-                            mapContainer.addChild(remotePlayer.getContainer())
+                            entityLayer.addChild(remotePlayer.getContainer())
                             remotePlayersRef.current.set(player.id, remotePlayer)
                         },
                         onPlayerMoved: (player) => {
@@ -227,11 +562,40 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                                 )
                             }
                         },
+                        onPositionCorrected: (correction) => {
+                            const character = characterRef.current
+                            if (!character) return
+                            // Replay unconfirmed moves with the same bounds and collision check as useGameLoop
+                            const { padding } = GameConfig.map
+                            const { x, y, width, height } = mapAreaRef.current
+                            const charSize = character.getSize()
+                            character.reconcile(
+                                correction.seq,
+                                correction.x,
+                                correction.y,
+                                {
+                                    minX: x + padding,
+                                    maxX: x + width - padding,
+                                    minY: y + padding,
+                                    maxY: y + height - padding,
+                                },
+                                (newX, newY, oldX, oldY) =>
+                                    collisionManagerRef.current.getValidPosition(
+                                        newX,
+                                        newY,
+                                        oldX,
+                                        oldY,
+                                        charSize.width,
+                                        charSize.height
+                                    )
+                            )
+                        },
                         onPlayerLeft: (playerId) => {
                             console.log('👋 Remote player left:', playerId)
                             const remotePlayer = remotePlayersRef.current.get(playerId)
                             if (remotePlayer) {
-                                mapContainer.removeChild(remotePlayer.getContainer())
+                                if (camera.getTarget() === remotePlayer) camera.stopFollowing()
+                                entityLayer.removeChild(remotePlayer.getContainer())
                                 remotePlayer.destroy()
                                 remotePlayersRef.current.delete(playerId)
                             }
@@ -287,7 +651,7 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                                         y: chest.y,
                                         rarity: chest.rarity,
                                     })
-                                    mapContainer.addChild(chestEntity.getContainer())
+                                    entityLayer.addChild(chestEntity.getContainer())
                                     chestsRef.current.set(chest.id, chestEntity)
                                 }
                             }
@@ -302,7 +666,7 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                                         y: chest.y,
                                         rarity: chest.rarity,
                                     })
-                                    mapContainer.addChild(chestEntity.getContainer())
+                                    entityLayer.addChild(chestEntity.getContainer())
                                     chestsRef.current.set(chest.id, chestEntity)
                                 }
                             }
@@ -312,7 +676,7 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                                 console.log('👋 Chest disappeared:', chestId)
                                 const chestEntity = chestsRef.current.get(chestId)
                                 if (chestEntity) {
-                                    mapContainer.removeChild(chestEntity.getContainer())
+                                    entityLayer.removeChild(chestEntity.getContainer())
                                     chestEntity.destroy()
                                     chestsRef.current.delete(chestId)
                                     if (nearbyChest === chestId) {
@@ -324,7 +688,7 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                         onBossSpawned: async (bosses) => {
                             // Remove existing boss entities
                             for (const [, boss] of bossesRef.current) {
-                                mapContainer.removeChild(boss.getContainer())
+                                entityLayer.removeChild(boss.getContainer())
                                 boss.destroy()
                             }
                             bossesRef.current.clear()
@@ -333,7 +697,7 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                             const { BossEntity } = await import('./BossEntity')
                             for (const bossData of bosses) {
                                 const bossEntity = new BossEntity(bossData)
-                                mapContainer.addChild(bossEntity.getContainer())
+                                entityLayer.addChild(bossEntity.getContainer())
                                 bossesRef.current.set(bossData.id, bossEntity)
                             }
                             console.log(`👹 Boss spawns reloaded: ${bosses.length} bosses`)
@@ -384,7 +748,7 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                                 if (data.defeated) {
                                     console.log(`💀 Boss ${data.bossSpawnId} defeated!`)
                                     await bossEntity.playDeathAnimation()
-                                    mapContainer.removeChild(bossEntity.getContainer())
+                                    entityLayer.removeChild(bossEntity.getContainer())
                                     bossEntity.destroy()
                                     bossesRef.current.delete(data.bossSpawnId)
 
@@ -454,11 +818,17 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                         },
                     })
 
-                    multiplayer.connect(playerName)
+                    multiplayer.connect(playerName, GameConfig.map.defaultMapId, { spectator })
                     multiplayerRef.current = multiplayer
                     localMultiplayer = multiplayer
                 }
 
+                // Spectators have no inventory or equipment to load
+                if (spectator) {
+                    setSpectatorReady(true)
+                    return
+                }
+
                 // Load item catalog / equipment / inventory (authenticated users)
                 try {
                     const { authAPI, gameAPI, playerAPI, shopAPI } = await import('../services/api')
@@ -510,6 +880,22 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                             setPlayerScore(me.user.totalScore)
                             localStorage.setItem('user', JSON.stringify(me.user))
                         }
+
+                        // The newer of the profile copy and this browser's copy wins, so a rebind that only
+                        // reached localStorage (offline, failed sync, local-only save) isn't overwritten
+                        try {
+                            const settingsResult = await playerAPI.getSettings()
+                            const profileRaw = settingsResult.success ? settingsResult.settings?.keyBindings : null
+                            const profileUpdatedAt = getKeyBindingsUpdatedAt(profileRaw)
+                            if (profileRaw && profileUpdatedAt >= loadKeyBindingsUpdatedAt()) {
+                                const profileBindings = normalizeKeyBindings(profileRaw)
+                                saveKeyBindings(profileBindings, profileUpdatedAt)
+                                setKeyBindings(profileBindings)
+                                inputHandler.setKeyBindings(profileBindings)
+                            }
+                        } catch {
+                            // profile settings are optional - keep local bindings
+                        }
                     }
                 } catch {
                     // guest mode: keep default equipment (set 1)
@@ -533,6 +919,17 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
             if (localMultiplayer) {
                 localMultiplayer.disconnect()
             }
+            // Stop animated tiles and chunk culling
+            localMapLoader?.detach()
+            app.stage.off('pointertap', handleStageTap)
+            app.ticker.remove(updateRemotePlayers)
+            // Cleanup debug overlay
+            debugOverlay.destroy()
+            debugOverlayRef.current = null
+            offscreenIndicators.destroy()
+            offscreenIndicatorsRef.current = null
+            camera.detach()
+            cameraRef.current = null
             // Cleanup remote players (use captured ref from effect start)
             remotePlayers.forEach((player) => player.destroy())
             remotePlayers.clear()
@@ -558,25 +955,104 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
         }
     }, [playerName])
 
-    // Disable input when question popup is showing
+    // Disable input when question popup or the key binding editor is showing
     useEffect(() => {
+        questionDataRef.current = questionData
         if (inputHandlerRef.current) {
-            inputHandlerRef.current.setDisabled(questionData !== null)
+            inputHandlerRef.current.setDisabled(questionData !== null || isEditingKeyBindings)
         }
-    }, [questionData])
+    }, [questionData, isEditingKeyBindings])
+
+    const handleMapTransition = useCallback((transition: MapTransition) => {
+        void changeMapRef.current?.(transition)
+    }, [])
+
+    // Compare where the replay ended with where the recording ended
+    const handleReplayFinished = useCallback(
+        (recording: InputRecording, position: { x: number; y: number }) => {
+            setIsReplayingInput(false)
+            const drift = Math.hypot(position.x - recording.end.x, position.y - recording.end.y)
+            if (drift < 0.01) {
+                console.log('✅ Replay finished at the recorded position', position)
+                setNotification('再生が終了しました（記録と一致）')
+            } else {
+                console.warn(`⚠️ Replay ended ${drift.toFixed(2)}px away from the recording`, {
+                    expected: recording.end,
+                    actual: position,
+                })
+                setNotification('再生が終了しました（記録とずれがあります）')
+            }
+            setTimeout(() => setNotification(null), 2500)
+        },
+        [setNotification]
+    )
+
+    // Minimap markers, read by the minimap on its own refresh interval
+    const getMinimapMarkers = useCallback((): MinimapMarkers => {
+        const player = characterRef.current?.getPosition() ?? null
+
+        // Arrived - the waypoint has done its job
+        const waypoint = waypointRef.current
+        if (
+            player &&
+            waypoint &&
+            Math.hypot(waypoint.x - player.x, waypoint.y - player.y) <= GameConfig.minimap.waypointReachedDistance
+        ) {
+            waypointRef.current = null
+        }
+
+        return {
+            player,
+            remotePlayers: Array.from(remotePlayersRef.current.values(), (remote) => remote.getPosition()),
+            chests: Array.from(chestsRef.current.values(), (chest) => ({
+                ...chest.getPosition(),
+                color: ChestEntity.getRarityColor(chest.getRarity()),
+            })),
+            bosses: Array.from(bossesRef.current.values(), (boss) => boss.getPosition()),
+            waypoint: waypointRef.current,
+            view: cameraRef.current?.getViewRect() ?? null,
+        }
+    }, [characterRef, remotePlayersRef, chestsRef, bossesRef])
+
+    // Minimap click: mark the spot and walk there when there's a route
+    const handleSetWaypoint = (point: PathPoint) => {
+        waypointRef.current = point
+        walkTo(point, 0)
+    }
+
+    const handleClearWaypoint = () => {
+        waypointRef.current = null
+    }
+
+    // Spectator camera (runs instead of the game loop, which needs a character)
+    useSpectatorCamera({
+        app: appRef.current,
+        camera: cameraRef.current,
+        inputHandler: inputHandlerRef.current,
+        enabled: spectator && spectatorReady,
+    })
 
     // Initialize game loop (only after character is ready)
+    // Re-runs after map transitions, since setCurrentMapId re-renders with the new container
     useGameLoop({
         app: appRef.current,
         mapContainer: mapContainerRef.current,
+        camera: cameraRef.current,
         character: characterReady ? characterRef.current : null,
         inputHandler: inputHandlerRef.current,
         multiplayer: multiplayerRef.current,
         collisionManager: collisionManagerRef.current,
+        debugOverlay: debugOverlayRef.current,
+        offscreenIndicators: offscreenIndicatorsRef.current,
+        walkTargetRef,
+        inputRecorder: inputRecorderRef.current,
+        replayerRef,
+        onReplayFinished: handleReplayFinished,
         chestsRef,
         bossesRef,
-        mapWidth: mapDimensionsRef.current.width,
-        mapHeight: mapDimensionsRef.current.height,
+        mapArea: mapAreaRef.current,
+        transitions: mapTransitionsRef.current,
+        onMapTransition: handleMapTransition,
         setNearbyChest,
         setNearbyChestPos,
         nearbyChestRef,
@@ -585,6 +1061,96 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
         nearbyBossRef,
     })
 
+    // Edge arrows for off-screen chests and bosses (remembered per browser)
+    useEffect(() => {
+        offscreenIndicatorsRef.current?.setEnabled(showOffscreenIndicators)
+    }, [showOffscreenIndicators, characterReady])
+
+    const handleToggleOffscreenIndicators = () => {
+        const next = !showOffscreenIndicators
+        localStorage.setItem(OFFSCREEN_INDICATORS_STORAGE_KEY, next ? 'on' : 'off')
+        setShowOffscreenIndicators(next)
+    }
+
+    // Start recording, or stop and download the recording as JSON
+    const handleToggleInputRecording = () => {
+        const character = characterRef.current
+        if (!character || replayerRef.current) return
+
+        const recorder = inputRecorderRef.current
+        if (!recorder.isRecording()) {
+            recorder.start(currentMapId, character.getPosition(), character.getSize())
+            setIsRecordingInput(true)
+            setNotification('入力の記録を開始しました')
+            setTimeout(() => setNotification(null), 1800)
+            return
+        }
+
+        const recording = recorder.stop(character.getPosition())
+        setIsRecordingInput(false)
+        if (!recording) return
+
+        const blob = new Blob([serializeRecording(recording)], { type: 'application/json' })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `input-recording-${recording.mapId}-${Date.now()}.json`
+        link.click()
+        URL.revokeObjectURL(url)
+        setNotification('記録を保存しました')
+        setTimeout(() => setNotification(null), 1800)
+    }
+
+    // Load a recording and replay it from its start position
+    const handleReplayInputRecording = async (file: File) => {
+        const character = characterRef.current
+        if (!character || inputRecorderRef.current.isRecording()) return
+
+        let recording: InputRecording
+        try {
+            recording = parseRecording(await file.text())
+        } catch (error) {
+            console.error('❌ Invalid input recording:', error)
+            setNotification('記録ファイルを読み込めませんでした')
+            setTimeout(() => setNotification(null), 1800)
+            return
+        }
+
+        if (recording.mapId !== currentMapId) {
+            setNotification(`この記録は別のマップ（${recording.mapId}）のものです`)
+            setTimeout(() => setNotification(null), 2500)
+            return
+        }
+
+        walkTargetRef.current = null
+        character.setPosition(recording.start.x, recording.start.y)
+        replayerRef.current = new InputReplayer(recording)
+        setIsReplayingInput(true)
+        console.log(`▶️ Replaying ${recording.frames.length} recorded frames`)
+        setNotification('記録を再生中...')
+        setTimeout(() => setNotification(null), 1800)
+    }
+
+    const handleSaveKeyBindings = async (bindings: KeyBindings, saveToProfile: boolean) => {
+        const stored = saveKeyBindings(bindings)
+        setKeyBindings(bindings)
+        inputHandlerRef.current?.setKeyBindings(bindings)
+
+        if (!saveToProfile) {
+            setNotification('キー設定を保存しました')
+            setTimeout(() => setNotification(null), 1800)
+            return
+        }
+        try {
+            const { playerAPI } = await import('../services/api')
+            const result = await playerAPI.updateSettings({ keyBindings: stored })
+            setNotification(result.success ? 'キー設定を保存しました' : 'プロフィールへの保存に失敗しました')
+        } catch {
+            setNotification('プロフィールへの保存に失敗しました')
+        }
+        setTimeout(() => setNotification(null), 1800)
+    }
+
     // Handle emoji selection
     const handleEmojiSelect = (emoji: string) => {
         // Show locally immediately
@@ -739,32 +1305,65 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                     justifyContent: 'center',
                     alignItems: 'center',
                     overflow: 'hidden',
-                    opacity: characterReady ? 1 : 0,
+                    opacity: characterReady || spectatorReady ? 1 : 0,
                     transition: 'opacity 0.3s ease-in',
+                    touchAction: 'none', // No browser panning/zooming over the game
                 }}
             />
 
-            <GameUI
-                showEmojiPicker={showEmojiPicker}
-                setShowEmojiPicker={setShowEmojiPicker}
-                notification={notification}
-                onEmojiSelect={handleEmojiSelect}
-                showInventory={showInventory}
-                setShowInventory={setShowInventory}
-                showShop={showShop}
-                setShowShop={setShowShop}
-                itemCatalog={itemCatalog}
-                inventory={inventory}
-                equippedItems={equippedItems}
-                playerScore={playerScore}
-                worldMessages={worldMessages}
-                currentUsername={currentUsername}
-                currentEmail={currentEmail}
-                onEquipItem={handleEquipItem}
-                onPurchaseItem={handlePurchaseItem}
-                onLogout={handleLogout}
-                onUpdateProfile={handleUpdateProfile}
-            />
+            {isTouchDevice && characterReady && (
+                <TouchControls
+                    inputHandler={inputHandlerRef.current}
+                    canInteract={nearbyChest !== null || nearbyBoss !== null}
+                />
+            )}
+
+            {spectator ?
+                <SpectatorHUD
+                    followedPlayerName={ranking.find((player) => player.id === followedPlayerId)?.name ?? null}
+                    notification={notification}
+                    onStopFollowing={() => cameraRef.current?.stopFollowing()}
+                    onExit={() => {
+                        window.location.href = '/admin/dashboard'
+                    }}
+                />
+            :   <GameUI
+                    showEmojiPicker={showEmojiPicker}
+                    setShowEmojiPicker={setShowEmojiPicker}
+                    notification={notification}
+                    onEmojiSelect={handleEmojiSelect}
+                    showInventory={showInventory}
+                    setShowInventory={setShowInventory}
+                    showShop={showShop}
+                    setShowShop={setShowShop}
+                    itemCatalog={itemCatalog}
+                    inventory={inventory}
+                    equippedItems={equippedItems}
+                    playerScore={playerScore}
+                    worldMessages={worldMessages}
+                    currentUsername={currentUsername}
+                    currentEmail={currentEmail}
+                    onEquipItem={handleEquipItem}
+                    onPurchaseItem={handlePurchaseItem}
+                    onLogout={handleLogout}
+                    onUpdateProfile={handleUpdateProfile}
+                    isTouchDevice={isTouchDevice}
+                    keyBindings={keyBindings}
+                    onSaveKeyBindings={handleSaveKeyBindings}
+                    onKeyBindingsOpenChange={setIsEditingKeyBindings}
+                    onWalkToNearestChest={walkToNearestChest}
+                    isRecordingInput={isRecordingInput}
+                    showOffscreenIndicators={showOffscreenIndicators}
+                    onToggleOffscreenIndicators={handleToggleOffscreenIndicators}
+                    isReplayingInput={isReplayingInput}
+                    onToggleInputRecording={handleToggleInputRecording}
+                    onReplayInputRecording={handleReplayInputRecording}
+                    minimap={minimap}
+                    getMinimapMarkers={getMinimapMarkers}
+                    onSetWaypoint={handleSetWaypoint}
+                    onClearWaypoint={handleClearWaypoint}
+                />
+            }
 
             <GameOverlays
                 nearbyChest={nearbyChest}
@@ -779,6 +1378,15 @@ export const Game = ({ playerName = '' }: { playerName?: string }) => {
                 bossSpawnCountdown={bossSpawnCountdown}
                 onSubmitAnswer={handleSubmitAnswer}
                 onCancelQuestion={handleCancelQuestion}
+                isTouchDevice={isTouchDevice}
+                keyBindings={keyBindings}
+                onSelectPlayer={spectator ? followPlayer : undefined}
+                followedPlayerId={followedPlayerId}
+            />
+
+            <ReconnectingOverlay
+                state={connection.state}
+                attempt={connection.attempt}
             />
         </div>
     )
@@ -1,24 +1,88 @@
+import { GameConfig } from '../config/gameConfig'
+import { type KeyAction, type KeyBindings, loadKeyBindings } from './KeyBindings'
+
 type Direction = 'up' | 'down' | 'left' | 'right'
 
+// Movement input as a vector; length is 1 for keys and up to 1 for analog input
+export interface MovementVector {
+    x: number
+    y: number
+}
+
+// Standard gamepad mapping D-pad buttons
+const DPAD_UP = 12
+const DPAD_DOWN = 13
+const DPAD_LEFT = 14
+const DPAD_RIGHT = 15
+
+export const DIRECTION_VECTORS: Record<Direction, MovementVector> = {
+    up: { x: 0, y: -1 },
+    down: { x: 0, y: 1 },
+    left: { x: -1, y: 0 },
+    right: { x: 1, y: 0 },
+}
+
 export class InputHandler {
     private keys: Set<string> = new Set()
-    private directionMap: Map<string, Direction> = new Map([
-        ['KeyW', 'up'],
-        ['ArrowUp', 'up'],
-        ['KeyS', 'down'],
-        ['ArrowDown', 'down'],
-        ['KeyA', 'left'],
-        ['ArrowLeft', 'left'],
-        ['KeyD', 'right'],
-        ['ArrowRight', 'right'],
-    ])
+    private directionMap: Map<string, Direction> = new Map()
+    private actionMap: Map<string, KeyAction> = new Map() // Non-movement actions
     private interactCallback: (() => void) | null = null
+    private toggleDebugCallback: (() => void) | null = null
+    private toggleEmojiCallback: (() => void) | null = null
+    private toggleInventoryCallback: (() => void) | null = null
+    private toggleShopCallback: (() => void) | null = null
+    private nearestChestCallback: (() => void) | null = null
     private disabled: boolean = false
 
-    constructor() {
+    // Gamepad state (polled every animation frame while a pad is connected)
+    private gamepadVector: MovementVector | null = null
+    private gamepadButtons: boolean[] = []
+    private gamepadFrame: number | null = null
+
+    // Virtual joystick state (set by TouchControls)
+    private touchVector: MovementVector | null = null
+
+    constructor(bindings: KeyBindings = loadKeyBindings()) {
+        this.setKeyBindings(bindings)
         this.setupEventListeners()
     }
 
+    /**
+     * Apply key bindings (from the settings screen, localStorage or the player profile)
+     */
+    setKeyBindings(bindings: KeyBindings) {
+        this.directionMap.clear()
+        this.actionMap.clear()
+        for (const [action, codes] of Object.entries(bindings) as [KeyAction, string[]][]) {
+            for (const code of codes) {
+                if (action === 'up' || action === 'down' || action === 'left' || action === 'right') {
+                    this.directionMap.set(code, action)
+                } else {
+                    this.actionMap.set(code, action)
+                }
+            }
+        }
+        // Held keys may no longer mean the same thing
+        this.keys.clear()
+    }
+
+    private getActionCallback(action: KeyAction): (() => void) | null {
+        switch (action) {
+            case 'interact':
+                return this.interactCallback
+            case 'emoji':
+                return this.toggleEmojiCallback
+            case 'inventory':
+                return this.toggleInventoryCallback
+            case 'shop':
+                return this.toggleShopCallback
+            case 'nearestChest':
+                return this.nearestChestCallback
+            default:
+                return null
+        }
+    }
+
     private setupEventListeners() {
         window.addEventListener('keydown', (e) => {
             // Allow typing in input/textarea elements (e.g. question popup answer box)
@@ -38,10 +102,18 @@ export class InputHandler {
                 this.keys.add(e.code)
             }
 
-            // Handle F key for interaction
-            if (e.code === 'KeyF' && this.interactCallback) {
+            // Interact / menu keys (ignore auto-repeat so holding a key doesn't flicker a menu)
+            const action = this.actionMap.get(e.code)
+            const callback = action ? this.getActionCallback(action) : null
+            if (callback) {
+                e.preventDefault()
+                if (!e.repeat) callback()
+            }
+
+            // Debug overlay toggle
+            if (e.code === GameConfig.collision.debugToggleKey && this.toggleDebugCallback) {
                 e.preventDefault()
-                this.interactCallback()
+                this.toggleDebugCallback()
             }
         })
 
@@ -80,19 +152,161 @@ export class InputHandler {
                 this.keys.clear()
             }
         })
+
+        // Gamepads
+        window.addEventListener('gamepadconnected', this.handleGamepadConnected)
+        window.addEventListener('gamepaddisconnected', this.handleGamepadDisconnected)
+        if (this.getGamepad()) {
+            this.gamepadFrame = requestAnimationFrame(this.pollGamepad)
+        }
+    }
+
+    private handleGamepadConnected = (e: GamepadEvent) => {
+        console.log('🎮 Gamepad connected:', e.gamepad.id)
+        if (this.gamepadFrame === null) {
+            this.gamepadFrame = requestAnimationFrame(this.pollGamepad)
+        }
+    }
+
+    private handleGamepadDisconnected = (e: GamepadEvent) => {
+        console.log('🎮 Gamepad disconnected:', e.gamepad.id)
+        if (!this.getGamepad()) {
+            this.stopGamepadPolling()
+        }
+    }
+
+    private getGamepad(): Gamepad | null {
+        // Unavailable outside secure contexts in some browsers
+        if (typeof navigator.getGamepads !== 'function') return null
+        return navigator.getGamepads().find((pad): pad is Gamepad => pad !== null && pad.connected) ?? null
     }
 
-    // Set callback for F key press
+    private stopGamepadPolling() {
+        if (this.gamepadFrame !== null) {
+            cancelAnimationFrame(this.gamepadFrame)
+            this.gamepadFrame = null
+        }
+        this.gamepadVector = null
+        this.gamepadButtons = []
+    }
+
+    /**
+     * Read the first connected gamepad
+     * D-pad or left stick drives movement; face buttons fire their callbacks once per press
+     */
+    private pollGamepad = () => {
+        this.gamepadFrame = requestAnimationFrame(this.pollGamepad)
+
+        const pad = this.getGamepad()
+        if (!pad) {
+            this.gamepadVector = null
+            return
+        }
+
+        const isPressed = (index: number) => pad.buttons[index]?.pressed ?? false
+
+        // D-pad wins over the stick
+        const dpadX = (isPressed(DPAD_RIGHT) ? 1 : 0) - (isPressed(DPAD_LEFT) ? 1 : 0)
+        const dpadY = (isPressed(DPAD_DOWN) ? 1 : 0) - (isPressed(DPAD_UP) ? 1 : 0)
+        if (dpadX !== 0 || dpadY !== 0) {
+            const length = Math.hypot(dpadX, dpadY)
+            this.gamepadVector = { x: dpadX / length, y: dpadY / length }
+        } else {
+            // Left stick - rescale past the deadzone so small tilts walk slowly
+            const stickX = pad.axes[0] ?? 0
+            const stickY = pad.axes[1] ?? 0
+            const tilt = Math.hypot(stickX, stickY)
+            const { stickDeadzone } = GameConfig.input.gamepad
+            if (tilt < stickDeadzone) {
+                this.gamepadVector = null
+            } else {
+                const scale = (Math.min(1, tilt) - stickDeadzone) / (1 - stickDeadzone) / tilt
+                this.gamepadVector = { x: stickX * scale, y: stickY * scale }
+            }
+        }
+
+        // Buttons fire on press (not while held)
+        const { interactButton, inventoryButton, emojiButton } = GameConfig.input.gamepad
+        const buttonCallbacks: [number, (() => void) | null][] = [
+            [interactButton, this.interactCallback],
+            [inventoryButton, this.toggleInventoryCallback],
+            [emojiButton, this.toggleEmojiCallback],
+        ]
+        for (const [index, callback] of buttonCallbacks) {
+            if (isPressed(index) && !this.gamepadButtons[index] && !this.disabled) {
+                callback?.()
+            }
+        }
+        this.gamepadButtons = pad.buttons.map((button) => button.pressed)
+    }
+
+    // Set callback for the interact key (F by default)
     onInteract(callback: () => void) {
         this.interactCallback = callback
     }
 
+    // Set callback for the debug overlay hotkey
+    onToggleDebug(callback: () => void) {
+        this.toggleDebugCallback = callback
+    }
+
+    // Virtual joystick (touch controls) - length up to 1
+    setTouchVector(vector: MovementVector | null) {
+        this.touchVector = vector
+    }
+
+    // Interact button (touch controls) - same as F key
+    triggerInteract() {
+        if (!this.disabled && this.interactCallback) {
+            this.interactCallback()
+        }
+    }
+
+    // Phones and tablets (no mouse) get on-screen controls
+    static isTouchDevice(): boolean {
+        return window.matchMedia('(pointer: coarse)').matches
+    }
+
+    // Each direction counts once even if both of its keys are held
+    private getHeldDirections(): Set<Direction> {
+        const held = new Set<Direction>()
+        for (const code of this.keys) {
+            const direction = this.directionMap.get(code)
+            if (direction) held.add(direction)
+        }
+        return held
+    }
+
+    // Analog input: virtual joystick first, then gamepad
+    private getAnalogVector(): MovementVector | null {
+        return this.touchVector ?? this.gamepadVector
+    }
+
+    // Set callbacks for menu keys / gamepad buttons
+    onToggleEmojiPicker(callback: () => void) {
+        this.toggleEmojiCallback = callback
+    }
+
+    onToggleInventory(callback: () => void) {
+        this.toggleInventoryCallback = callback
+    }
+
+    onToggleShop(callback: () => void) {
+        this.toggleShopCallback = callback
+    }
+
+    // Set callback for the walk-to-nearest-chest key
+    onWalkToNearestChest(callback: () => void) {
+        this.nearestChestCallback = callback
+    }
+
     // Enable/disable input (used when popup is showing)
     setDisabled(disabled: boolean) {
         this.disabled = disabled
         if (disabled) {
             // Clear all keys when disabling
             this.keys.clear()
+            this.touchVector = null
         }
     }
 
@@ -102,34 +316,62 @@ export class InputHandler {
             return null
         }
 
-        // Priority: Up > Down > Left > Right
+        // Priority: Up > Down > Left > Right (GameConfig.input.movementPriority)
         // Only one direction at a time (no diagonal movement)
+        const held = this.getHeldDirections()
+        for (const direction of GameConfig.input.movementPriority) {
+            if (held.has(direction)) {
+                return direction
+            }
+        }
 
-        // Check Up first (W or ArrowUp)
-        if (this.keys.has('KeyW') || this.keys.has('ArrowUp')) {
-            return 'up'
+        // Fall back to the joystick / gamepad (dominant axis)
+        const analog = this.getAnalogVector()
+        if (analog) {
+            const { x, y } = analog
+            if (Math.abs(y) >= Math.abs(x)) {
+                return y < 0 ? 'up' : 'down'
+            }
+            return x < 0 ? 'left' : 'right'
         }
 
-        // Check Down (S or ArrowDown)
-        if (this.keys.has('KeyS') || this.keys.has('ArrowDown')) {
-            return 'down'
+        return null
+    }
+
+    /**
+     * Get movement input as a vector
+     * In 'fourWay' mode this follows getDirection; in 'eightWay' mode opposite keys cancel out
+     * and diagonals are normalized so they aren't faster than straight moves
+     */
+    getMovementVector(): MovementVector | null {
+        if (GameConfig.input.movementMode === 'fourWay') {
+            const direction = this.getDirection()
+            return direction ? DIRECTION_VECTORS[direction] : null
         }
 
-        // Check Left (A or ArrowLeft)
-        if (this.keys.has('KeyA') || this.keys.has('ArrowLeft')) {
-            return 'left'
+        if (this.disabled) {
+            return null
         }
 
-        // Check Right (D or ArrowRight)
-        if (this.keys.has('KeyD') || this.keys.has('ArrowRight')) {
-            return 'right'
+        let x = 0
+        let y = 0
+        for (const direction of this.getHeldDirections()) {
+            x += DIRECTION_VECTORS[direction].x
+            y += DIRECTION_VECTORS[direction].y
         }
 
-        return null
+        // Keyboard wins; otherwise use the joystick / gamepad (analog input keeps its tilt)
+        if (x === 0 && y === 0) return this.getAnalogVector()
+
+        const length = Math.hypot(x, y)
+        return { x: x / length, y: y / length }
     }
 
     destroy() {
         // Clean up event listeners if needed
         this.keys.clear()
+        this.stopGamepadPolling()
+        window.removeEventListener('gamepadconnected', this.handleGamepadConnected)
+        window.removeEventListener('gamepaddisconnected', this.handleGamepadDisconnected)
     }
 }
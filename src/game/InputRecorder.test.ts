@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+
+import type { TiledObject } from '../types/tiled'
+import { type MapBounds } from './Character'
+import { CollisionManager } from './CollisionManager'
+import {
+    InputRecorder,
+    type InputRecording,
+    type RecordedFrame,
+    parseRecording,
+    serializeRecording,
+    simulateRecording,
+} from './InputRecorder'
+
+const SIZE = { width: 32, height: 32 }
+const BOUNDS: MapBounds = { minX: 32, maxX: 992, minY: 32, maxY: 992 }
+
+const wall = (id: number, x: number, y: number, width: number, height: number): TiledObject => ({
+    id,
+    name: '',
+    type: '',
+    x,
+    y,
+    width,
+    height,
+    visible: true,
+})
+
+const createCollisions = () => {
+    const manager = new CollisionManager()
+    manager.loadFromTiledObjects([
+        wall(1, 400, 0, 32, 600), // Vertical wall with a gap at the bottom
+        wall(2, 600, 400, 300, 32),
+    ])
+    return manager
+}
+
+// 16ms frames at speed 250 move exactly 4px each
+const frames = (count: number, x: number, y: number): RecordedFrame[] =>
+    Array.from({ length: count }, () => [16, x, y, 0])
+
+const buildRecording = (start: { x: number; y: number }, recorded: RecordedFrame[]): InputRecording => ({
+    version: 1,
+    mapId: 'test',
+    movementMode: 'keyboard',
+    speed: 250,
+    characterSize: SIZE,
+    start,
+    end: start,
+    frames: recorded,
+})
+
+describe('InputRecorder', () => {
+    it('records movement and attaches interact to the next frame', () => {
+        const recorder = new InputRecorder()
+        recorder.start('test', { x: 100, y: 100 }, SIZE)
+        recorder.recordFrame(16, { x: 1, y: 0 })
+        recorder.markInteract()
+        recorder.recordFrame(17, null)
+
+        const recording = recorder.stop({ x: 104, y: 100 })!
+        expect(recording.frames).toEqual([
+            [16, 1, 0, 0],
+            [17, 0, 0, 1],
+        ])
+        expect(recording.start).toEqual({ x: 100, y: 100 })
+        expect(recording.end).toEqual({ x: 104, y: 100 })
+        expect(recorder.isRecording()).toBe(false)
+    })
+})
+
+describe('serializeRecording / parseRecording', () => {
+    const recording = buildRecording({ x: 100, y: 100 }, [...frames(3, 1, 0), [16, 0, 0, 1]])
+
+    it('round-trips a recording', () => {
+        expect(parseRecording(serializeRecording(recording))).toEqual(recording)
+    })
+
+    it('rejects malformed files', () => {
+        expect(() => parseRecording('not json')).toThrow()
+        expect(() => parseRecording(JSON.stringify({ ...recording, version: 2 }))).toThrow('version')
+        expect(() => parseRecording(JSON.stringify({ ...recording, mapId: undefined }))).toThrow('mapId')
+        expect(() => parseRecording(JSON.stringify({ ...recording, end: { x: 1 } }))).toThrow('start/end')
+        expect(() => parseRecording(JSON.stringify({ ...recording, frames: [[16, 1, 0]] }))).toThrow('frames')
+        expect(() => parseRecording(JSON.stringify({ ...recording, frames: [[16, '1', 0, 0]] }))).toThrow('frames')
+    })
+})
+
+describe('simulateRecording', () => {
+    it('moves by speed × frame time in the recorded direction', () => {
+        const recording = buildRecording({ x: 100, y: 100 }, [
+            ...frames(50, 1, 0),
+            ...frames(10, 0, 0),
+            ...frames(25, 0, 1),
+        ])
+        const trace = simulateRecording(recording, createCollisions(), BOUNDS)
+
+        expect(trace).toHaveLength(85)
+        expect(trace[49]).toEqual({ x: 300, y: 100 })
+        expect(trace[59]).toEqual({ x: 300, y: 100 }) // Idle frames don't move
+        expect(trace.at(-1)).toEqual({ x: 300, y: 200 })
+    })
+
+    it('stops at a wall instead of passing through', () => {
+        // Right edge reaches the wall face at x = 400 - 16; the 4px step after 382 would overlap it
+        const recording = buildRecording({ x: 102, y: 100 }, frames(100, 1, 0))
+        const trace = simulateRecording(recording, createCollisions(), BOUNDS)
+
+        expect(trace[69]).toEqual({ x: 382, y: 100 })
+        expect(trace.at(-1)).toEqual({ x: 382, y: 100 })
+    })
+
+    it('clamps to the map bounds', () => {
+        const recording = buildRecording({ x: 100, y: 100 }, frames(30, -1, 0))
+        const trace = simulateRecording(recording, createCollisions(), BOUNDS)
+
+        expect(trace.at(-1)).toEqual({ x: BOUNDS.minX, y: 100 })
+    })
+})
@@ -0,0 +1,153 @@
+import { GameConfig } from '../config/gameConfig'
+import { type MapBounds, computeMoveStep } from './Character'
+import { type CollisionManager } from './CollisionManager'
+import { type MovementVector } from './InputHandler'
+import { type PathPoint } from './NavigationGrid'
+
+// One ticker frame: [deltaMS, moveX, moveY, interact (1 = pressed this frame)]
+// Tuples keep long recordings small enough to attach to a bug report
+export type RecordedFrame = [number, number, number, number]
+
+export interface InputRecording {
+    version: 1
+    mapId: string
+    movementMode: string
+    speed: number
+    characterSize: { width: number; height: number }
+    start: PathPoint
+    end: PathPoint
+    frames: RecordedFrame[]
+}
+
+export interface ReplayFrame {
+    deltaMS: number
+    movement: MovementVector | null
+    interact: boolean
+}
+
+/**
+ * Records the per-frame movement vector and interact presses
+ * The final movement vector is recorded (after click-to-move etc.), so replays don't depend on input devices
+ */
+export class InputRecorder {
+    private recording: InputRecording | null = null
+    private pendingInteract = false
+
+    start(mapId: string, position: PathPoint, characterSize: { width: number; height: number }) {
+        this.recording = {
+            version: 1,
+            mapId,
+            movementMode: GameConfig.input.movementMode,
+            speed: GameConfig.character.speed,
+            characterSize,
+            start: { x: position.x, y: position.y },
+            end: { x: position.x, y: position.y },
+            frames: [],
+        }
+        this.pendingInteract = false
+        console.log(`⏺️ Input recording started on ${mapId}`)
+    }
+
+    isRecording(): boolean {
+        return this.recording !== null
+    }
+
+    // Interact fires from key events between ticks - attach it to the next recorded frame
+    markInteract() {
+        if (this.recording) this.pendingInteract = true
+    }
+
+    recordFrame(deltaMS: number, movement: MovementVector | null) {
+        if (!this.recording) return
+        this.recording.frames.push([deltaMS, movement?.x ?? 0, movement?.y ?? 0, this.pendingInteract ? 1 : 0])
+        this.pendingInteract = false
+    }
+
+    stop(position: PathPoint): InputRecording | null {
+        const recording = this.recording
+        this.recording = null
+        if (!recording) return null
+
+        recording.end = { x: position.x, y: position.y }
+        console.log(`⏹️ Input recording stopped: ${recording.frames.length} frames`)
+        return recording
+    }
+}
+
+/**
+ * Feeds a recording back one frame per tick
+ */
+export class InputReplayer {
+    private recording: InputRecording
+    private frameIndex = 0
+
+    constructor(recording: InputRecording) {
+        this.recording = recording
+    }
+
+    next(): ReplayFrame | null {
+        const frame = this.recording.frames[this.frameIndex]
+        if (!frame) return null
+        this.frameIndex++
+
+        const [deltaMS, x, y, interact] = frame
+        return {
+            deltaMS,
+            movement: x === 0 && y === 0 ? null : { x, y },
+            interact: interact === 1,
+        }
+    }
+
+    isFinished(): boolean {
+        return this.frameIndex >= this.recording.frames.length
+    }
+
+    getRecording(): InputRecording {
+        return this.recording
+    }
+}
+
+export const serializeRecording = (recording: InputRecording): string => JSON.stringify(recording)
+
+/**
+ * Parse and validate a recording file
+ * Throws with a readable message when the file isn't a recording
+ */
+export const parseRecording = (json: string): InputRecording => {
+    const data = JSON.parse(json) as Partial<InputRecording>
+    if (data?.version !== 1) throw new Error('Unsupported recording version')
+    if (typeof data.mapId !== 'string') throw new Error('Recording has no mapId')
+    if (!isPoint(data.start) || !isPoint(data.end)) throw new Error('Recording has no start/end position')
+    if (!Array.isArray(data.frames) || !data.frames.every(isFrame)) throw new Error('Recording frames are invalid')
+    return data as InputRecording
+}
+
+const isPoint = (value: unknown): value is PathPoint =>
+    !!value && typeof (value as PathPoint).x === 'number' && typeof (value as PathPoint).y === 'number'
+
+const isFrame = (value: unknown): value is RecordedFrame =>
+    Array.isArray(value) && value.length === 4 && value.every((n) => typeof n === 'number' && Number.isFinite(n))
+
+/**
+ * Replay a recording without rendering, using the same movement and collision code as the game
+ * Returns the position after every frame (for regression checks and "stuck in a wall" reports)
+ */
+export const simulateRecording = (
+    recording: InputRecording,
+    collisionManager: CollisionManager,
+    mapBounds: MapBounds
+): PathPoint[] => {
+    const { width, height } = recording.characterSize
+    const collisionCheck = (newX: number, newY: number, oldX: number, oldY: number) =>
+        collisionManager.getValidPosition(newX, newY, oldX, oldY, width, height)
+
+    const trace: PathPoint[] = []
+    let position = { ...recording.start }
+    for (const [deltaMS, x, y] of recording.frames) {
+        if (x !== 0 || y !== 0) {
+            position = computeMoveStep(position, { x, y }, deltaMS / 1000, recording.speed, mapBounds, collisionCheck)
+        }
+        trace.push(position)
+    }
+    return trace
+}
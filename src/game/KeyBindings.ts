@@ -0,0 +1,123 @@
+/**
+ * Rebindable keyboard controls
+ * Bindings are KeyboardEvent.code values (physical keys), saved per user in localStorage
+ * Saved copies carry an updatedAt timestamp so the newer of the local and profile copies wins
+ */
+
+export type KeyAction = 'up' | 'down' | 'left' | 'right' | 'interact' | 'nearestChest' | 'emoji' | 'inventory' | 'shop'
+
+export type KeyBindings = Record<KeyAction, string[]>
+
+// Form saved to localStorage and the profile (updatedAt is missing on copies saved before it existed)
+export type StoredKeyBindings = KeyBindings & { updatedAt?: number }
+
+// Each action can have a primary and a secondary key
+export const MAX_KEYS_PER_ACTION = 2
+
+export const KEY_ACTIONS: KeyAction[] = [
+    'up',
+    'down',
+    'left',
+    'right',
+    'interact',
+    'nearestChest',
+    'emoji',
+    'inventory',
+    'shop',
+]
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+    up: '上に移動',
+    down: '下に移動',
+    left: '左に移動',
+    right: '右に移動',
+    interact: '調べる',
+    nearestChest: '最寄りの宝箱へ移動',
+    emoji: '絵文字',
+    inventory: 'インベントリ',
+    shop: 'ショップ',
+}
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    up: ['KeyW', 'ArrowUp'],
+    down: ['KeyS', 'ArrowDown'],
+    left: ['KeyA', 'ArrowLeft'],
+    right: ['KeyD', 'ArrowRight'],
+    interact: ['KeyF'],
+    nearestChest: ['KeyC'],
+    emoji: ['KeyE'],
+    inventory: ['KeyI'],
+    shop: ['KeyB'],
+}
+
+const STORAGE_KEY_PREFIX = 'keyBindings'
+
+// Bindings are stored per user so shared machines (events, classrooms) keep everyone's layout
+const getStorageKey = (): string => {
+    try {
+        const user = JSON.parse(localStorage.getItem('user') || 'null') as { id?: number | string } | null
+        return user?.id !== undefined ? `${STORAGE_KEY_PREFIX}:${user.id}` : `${STORAGE_KEY_PREFIX}:guest`
+    } catch {
+        return `${STORAGE_KEY_PREFIX}:guest`
+    }
+}
+
+/**
+ * Fill in missing actions with defaults and drop anything that isn't a key code
+ * Used for both localStorage and profile data, which may come from older versions
+ */
+export const normalizeKeyBindings = (raw: unknown): KeyBindings => {
+    const bindings = { ...DEFAULT_KEY_BINDINGS }
+    if (!raw || typeof raw !== 'object') return bindings
+
+    for (const action of KEY_ACTIONS) {
+        const codes = (raw as Record<string, unknown>)[action]
+        if (Array.isArray(codes)) {
+            bindings[action] = codes
+                .filter((code): code is string => typeof code === 'string' && code.length > 0)
+                .slice(0, MAX_KEYS_PER_ACTION)
+        }
+    }
+    return bindings
+}
+
+/**
+ * When a saved copy was last changed (0 if unknown)
+ */
+export const getKeyBindingsUpdatedAt = (raw: unknown): number => {
+    const updatedAt = raw && typeof raw === 'object' ? (raw as { updatedAt?: unknown }).updatedAt : undefined
+    return typeof updatedAt === 'number' && Number.isFinite(updatedAt) ? updatedAt : 0
+}
+
+const readStoredKeyBindings = (): unknown => {
+    try {
+        return JSON.parse(localStorage.getItem(getStorageKey()) || 'null')
+    } catch {
+        return null
+    }
+}
+
+export const loadKeyBindings = (): KeyBindings => normalizeKeyBindings(readStoredKeyBindings())
+
+export const loadKeyBindingsUpdatedAt = (): number => getKeyBindingsUpdatedAt(readStoredKeyBindings())
+
+/**
+ * Save to localStorage and return the stored copy (with its timestamp) for syncing to the profile
+ */
+export const saveKeyBindings = (bindings: KeyBindings, updatedAt: number = Date.now()): StoredKeyBindings => {
+    const stored = { ...bindings, updatedAt }
+    localStorage.setItem(getStorageKey(), JSON.stringify(stored))
+    return stored
+}
+
+/**
+ * Human readable key name for the settings screen
+ */
+export const formatKeyCode = (code: string): string => {
+    const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' }
+    if (arrows[code]) return arrows[code]
+    if (code.startsWith('Key')) return code.slice(3)
+    if (code.startsWith('Digit')) return code.slice(5)
+    if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`
+    return code
+}
@@ -1,6 +1,8 @@
+import axios from 'axios'
 import { Socket, io } from 'socket.io-client'
 
 import { GameConfig } from '../config/gameConfig'
+import { gameAPI } from '../services/api'
 import { type PlayerEquipment } from './equipment/types'
 
 export interface PlayerData {
@@ -13,6 +15,32 @@ export interface PlayerData {
     equipment?: PlayerEquipment
 }
 
+// Index order of the direction in the compact player:move payload
+const MOVE_DIRECTIONS = ['down', 'up', 'left', 'right'] as const
+
+// Server override of the local position, as of the player's move `seq`
+export interface PositionCorrection {
+    seq: number
+    x: number
+    y: number
+}
+
+// 'reconnecting' while socket.io retries with backoff, 'failed' once it gives up,
+// 'unauthorized' when the server refuses the handshake token
+export type ConnectionState = 'connected' | 'reconnecting' | 'failed' | 'unauthorized'
+
+// Question the server still holds for this player, sent in 'game:init' after a reconnect
+export type ActiveQuestion =
+    | { type: 'chest'; chestId: string; question: string; timeLimit: number }
+    | { type: 'boss'; bossSpawnId: number; questionId: number; question: string; timeLimit: number }
+
+export interface GameInitData {
+    playerId: string
+    players: PlayerData[]
+    chests?: ChestData[]
+    activeQuestion?: ActiveQuestion | null
+}
+
 export interface ChestData {
     id: string
     x: number
@@ -37,9 +65,11 @@ export interface WorldMessageData {
 }
 
 export interface MultiplayerCallbacks {
-    onGameInit?: (data: { playerId: string; players: PlayerData[]; chests?: ChestData[] }) => void
+    onGameInit?: (data: GameInitData, resumed: boolean) => void
+    onConnectionStateChange?: (state: ConnectionState, attempt: number) => void
     onPlayerJoined?: (player: PlayerData) => void
     onPlayerMoved?: (player: PlayerData) => void
+    onPositionCorrected?: (correction: PositionCorrection) => void
     onPlayerLeft?: (playerId: string) => void
     onPlayerUpdated?: (player: PlayerData) => void
     onPlayerEmoji?: (data: { id: string; emoji: string; duration: number }) => void
@@ -99,17 +129,34 @@ export interface MultiplayerCallbacks {
     onWorldMessage?: (message: WorldMessageData) => void
 }
 
+// Rejected answers (cooldown, wrong chest...) come back as 4xx with the usual result body
+const getAnswerErrorResult = (err: unknown): { success: false; message?: string; reason?: string } | null => {
+    if (!axios.isAxiosError(err) || !err.response?.data || typeof err.response.data !== 'object') return null
+    return { ...err.response.data, success: false }
+}
+
 export class MultiplayerManager {
     private socket: Socket | null = null
     private callbacks: MultiplayerCallbacks = {}
     private connected = false
     private localPlayerId: string | null = null
+    private mapId: string = GameConfig.map.defaultMapId
+    private spectator = false // Watching only - the server doesn't create a player for this socket
+    private hasConnected = false // Later 'connect' events are reconnects
+    private resuming = false // Waiting for the 'game:init' that answers a reconnect
+    private lastSentPosition: {
+        x: number
+        y: number
+        direction: PlayerData['direction']
+        isMoving: boolean
+        time: number
+    } | null = null
 
     constructor(callbacks: MultiplayerCallbacks = {}) {
         this.callbacks = callbacks
     }
 
-    connect(name?: string): void {
+    connect(name?: string, mapId?: string, options: { spectator?: boolean } = {}): void {
         if (!GameConfig.multiplayer.enabled) {
             console.log('Multiplayer is disabled in config')
             return
@@ -117,46 +164,95 @@ export class MultiplayerManager {
 
         const serverUrl = GameConfig.multiplayer.serverUrl
         console.log('Connecting to multiplayer server:', serverUrl)
+        if (mapId) this.mapId = mapId
+        this.spectator = options.spectator ?? false
 
         this.socket = io(serverUrl, {
             transports: ['polling', 'websocket'], // Try polling first, then upgrade to WebSocket
+            // Read on every (re)connect so a refreshed login is picked up
+            auth: (cb) => cb({ token: localStorage.getItem('token') }),
+            // Exponential backoff: reconnectDelay * 2^attempt (with jitter), capped at reconnectDelayMax
             reconnectionAttempts: GameConfig.multiplayer.reconnectAttempts,
             reconnectionDelay: GameConfig.multiplayer.reconnectDelay,
+            reconnectionDelayMax: GameConfig.multiplayer.reconnectDelayMax,
         })
 
         // Connection events
         this.socket.on('connect', () => {
+            const resumed = this.hasConnected
+            const lastPosition = this.lastSentPosition
             this.connected = true
+            this.hasConnected = true
+            this.resuming = resumed
             // socket.id can be undefined in some typings, normalize to null when absent
             this.localPlayerId = this.socket!.id ?? null
-            console.log('✅ Connected to multiplayer server:', this.localPlayerId)
+            this.lastSentPosition = null // Send the first position right away
+            console.log(
+                resumed ? '🔄 Reconnected to multiplayer server:' : '✅ Connected to multiplayer server:',
+                this.localPlayerId
+            )
+
+            // Let the game drop its stale world state before the fresh snapshot arrives
+            if (resumed) this.callbacks.onConnectionStateChange?.('connected', 0)
 
             // Notify server that this player has joined (server will reply with 'game:init')
-            // Include name passed into connect() if provided.
+            // Include name passed into connect() if provided, and the map room to join.
+            // Spectators join the room without a player ('game:init' then lists everyone as remote)
+            // A reconnect asks to resume where we were, so the server can hand back an unfinished question
             try {
-                const payload: { name?: string } = {}
+                const payload: { name?: string; mapId: string; resume?: boolean; x?: number; y?: number } = {
+                    mapId: this.mapId,
+                }
                 if (typeof name === 'string' && name.trim().length > 0) payload.name = name.trim()
-                this.socket!.emit('player:join', payload)
+                if (resumed) {
+                    payload.resume = true
+                    if (lastPosition) {
+                        payload.x = lastPosition.x
+                        payload.y = lastPosition.y
+                    }
+                }
+                this.socket!.emit(this.spectator ? 'spectator:join' : 'player:join', payload)
             } catch (err) {
                 console.warn('Failed to emit player:join', err)
             }
         })
 
-        this.socket.on('disconnect', () => {
+        this.socket.on('disconnect', (reason: Socket.DisconnectReason) => {
             this.connected = false
-            console.log('❌ Disconnected from multiplayer server')
+            console.log('❌ Disconnected from multiplayer server:', reason)
+
+            // Our own disconnect() - nothing to recover
+            if (reason === 'io client disconnect') return
+            // Kicked by the server: socket.io won't retry on its own
+            this.callbacks.onConnectionStateChange?.(reason === 'io server disconnect' ? 'failed' : 'reconnecting', 0)
+        })
+
+        this.socket.io.on('reconnect_attempt', (attempt: number) => {
+            console.log(`🔄 Reconnecting (${attempt}/${GameConfig.multiplayer.reconnectAttempts})`)
+            this.callbacks.onConnectionStateChange?.('reconnecting', attempt)
+        })
+
+        this.socket.io.on('reconnect_failed', () => {
+            console.error('❌ Gave up reconnecting to multiplayer server')
+            this.callbacks.onConnectionStateChange?.('failed', GameConfig.multiplayer.reconnectAttempts)
         })
 
         this.socket.on('connect_error', (error: Error) => {
             console.error('Connection error:', error.message)
+            // Transport failures are retried; an inactive socket means the server's auth middleware refused us
+            if (this.socket && !this.socket.active) {
+                this.callbacks.onConnectionStateChange?.('unauthorized', 0)
+            }
         })
 
         // Initialize player on server
-        this.socket.on('game:init', (data: { playerId: string; players: PlayerData[]; chests?: ChestData[] }) => {
+        this.socket.on('game:init', (data: GameInitData) => {
             console.log('✅ Game initialized, received', data.players.length, 'existing players')
+            const resumed = this.resuming
+            this.resuming = false
 
             // Notify about full game init first (includes local player data)
-            this.callbacks.onGameInit?.(data)
+            this.callbacks.onGameInit?.(data, resumed)
 
             // Load existing players (excluding self)
             data.players.forEach((player) => {
@@ -188,6 +284,12 @@ export class MultiplayerManager {
             this.callbacks.onPlayerMoved?.(player)
         })
 
+        // Server rejected or adjusted our position (anti-teleport, entity collisions)
+        this.socket.on('player:correct', (correction: PositionCorrection) => {
+            console.log('📍 Position corrected by server:', correction)
+            this.callbacks.onPositionCorrected?.(correction)
+        })
+
         // Player emoji events
         this.socket.on('player:emoji', (data: { id: string; emoji: string; duration: number }) => {
             this.callbacks.onPlayerEmoji?.(data)
@@ -356,12 +458,70 @@ export class MultiplayerManager {
         }
     }
 
-    // Send local player position to server
-    sendPosition(x: number, y: number, direction: 'down' | 'up' | 'left' | 'right', isMoving: boolean): void {
+    // Move the local player to another map's room (server replies with a fresh 'game:init')
+    changeMap(mapId: string, x: number, y: number): void {
+        this.mapId = mapId
         if (!this.connected || !this.socket) return
+        try {
+            console.log('🚪 Changing map:', mapId)
+            this.socket.emit('player:changeMap', { mapId, x, y })
+            this.lastSentPosition = null // New room - send the next position right away
+        } catch (err) {
+            console.warn('Failed to change map', err)
+        }
+    }
+
+    getMapId(): string {
+        return this.mapId
+    }
+
+    isSpectator(): boolean {
+        return this.spectator
+    }
+
+    // Send local player position to server
+    /**
+     * Send the local position - safe to call every frame
+     * Sends at most `sendRate` times per second, only when something changed,
+     * plus a heartbeat while standing still
+     */
+    sendPosition(
+        x: number,
+        y: number,
+        direction: 'down' | 'up' | 'left' | 'right',
+        isMoving: boolean,
+        seq: number, // Latest predicted move (Character.getInputSeq) - echoed back in player:correct
+        now = performance.now()
+    ): void {
+        if (!this.connected || !this.socket || this.spectator) return
+
+        const { sendRate, heartbeatInterval, positionEpsilon, compactMovePayload } = GameConfig.multiplayer
+        const last = this.lastSentPosition
+        if (last) {
+            const elapsed = now - last.time
+            if (elapsed < 1000 / sendRate) return
+
+            const changed =
+                Math.abs(x - last.x) > positionEpsilon ||
+                Math.abs(y - last.y) > positionEpsilon ||
+                direction !== last.direction ||
+                isMoving !== last.isMoving
+            if (!changed && elapsed < heartbeatInterval) return
+        }
+        this.lastSentPosition = { x, y, direction, isMoving, time: now }
 
         // Use colon format to match server events
-        this.socket.emit('player:move', { x, y, direction, isMoving })
+        if (compactMovePayload) {
+            this.socket.emit('player:move', [
+                Math.round(x * 10) / 10,
+                Math.round(y * 10) / 10,
+                MOVE_DIRECTIONS.indexOf(direction),
+                isMoving ? 1 : 0,
+                seq,
+            ])
+        } else {
+            this.socket.emit('player:move', { x, y, direction, isMoving, seq })
+        }
     }
 
     isConnected(): boolean {
@@ -433,26 +593,16 @@ export class MultiplayerManager {
         try {
             console.log('📝 Submitting boss answer for boss:', bossSpawnId)
 
-            const serverUrl = GameConfig.multiplayer.serverUrl
-            const response = await fetch(`${serverUrl}/api/boss/answer`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    bossSpawnId,
-                    questionId,
-                    answer,
-                    playerId: this.localPlayerId,
-                }),
-            })
-
-            const result = await response.json()
+            const result = await gameAPI.submitBossAnswer(bossSpawnId, questionId, answer)
             this.callbacks.onBossAnswerResult?.(result)
         } catch (err) {
             console.warn('Failed to submit boss answer', err)
-            this.callbacks.onBossAnswerResult?.({
-                success: false,
-                message: 'ネットワークエラーが発生しました',
-            })
+            this.callbacks.onBossAnswerResult?.(
+                getAnswerErrorResult(err) ?? {
+                    success: false,
+                    message: 'ネットワークエラーが発生しました',
+                }
+            )
         }
     }
 
@@ -463,29 +613,18 @@ export class MultiplayerManager {
         try {
             console.log('📝 Submitting answer for chest:', chestId, 'Answer:', answer)
 
-            const serverUrl = GameConfig.multiplayer.serverUrl
-            const response = await fetch(`${serverUrl}/api/chest/answer`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    chestId,
-                    answer,
-                    playerId: this.localPlayerId,
-                }),
-            })
-
-            const result = await response.json()
+            const result = await gameAPI.submitAnswer(chestId, answer)
 
             // Trigger callback with API result
             this.callbacks.onChestAnswerResult?.(result)
         } catch (err) {
             console.warn('Failed to submit answer', err)
-            this.callbacks.onChestAnswerResult?.({
-                success: false,
-                message: 'ネットワークエラーが発生しました',
-            })
+            this.callbacks.onChestAnswerResult?.(
+                getAnswerErrorResult(err) ?? {
+                    success: false,
+                    message: 'ネットワークエラーが発生しました',
+                }
+            )
         }
     }
 }
@@ -0,0 +1,294 @@
+import { GameConfig } from '../config/gameConfig'
+import { type CollisionManager, type Rectangle } from './CollisionManager'
+
+export interface PathPoint {
+    x: number
+    y: number
+}
+
+// 8 neighbours: [dx, dy, cost]
+const NEIGHBOURS: [number, number, number][] = [
+    [1, 0, 1],
+    [-1, 0, 1],
+    [0, 1, 1],
+    [0, -1, 1],
+    [1, 1, Math.SQRT2],
+    [1, -1, Math.SQRT2],
+    [-1, 1, Math.SQRT2],
+    [-1, -1, Math.SQRT2],
+]
+
+/**
+ * Binary min-heap of cell indices keyed by f-score
+ */
+class OpenSet {
+    private items: number[] = []
+    private scores: number[] = []
+
+    get size(): number {
+        return this.items.length
+    }
+
+    push(item: number, score: number) {
+        this.items.push(item)
+        this.scores.push(score)
+        let i = this.items.length - 1
+        while (i > 0) {
+            const parent = (i - 1) >> 1
+            if (this.scores[parent] <= this.scores[i]) break
+            this.swap(i, parent)
+            i = parent
+        }
+    }
+
+    pop(): number {
+        const top = this.items[0]
+        const lastItem = this.items.pop()!
+        const lastScore = this.scores.pop()!
+        if (this.items.length > 0) {
+            this.items[0] = lastItem
+            this.scores[0] = lastScore
+            let i = 0
+            for (;;) {
+                const left = i * 2 + 1
+                const right = left + 1
+                let smallest = i
+                if (left < this.items.length && this.scores[left] < this.scores[smallest]) smallest = left
+                if (right < this.items.length && this.scores[right] < this.scores[smallest]) smallest = right
+                if (smallest === i) break
+                this.swap(i, smallest)
+                i = smallest
+            }
+        }
+        return top
+    }
+
+    private swap(a: number, b: number) {
+        ;[this.items[a], this.items[b]] = [this.items[b], this.items[a]]
+        ;[this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]]
+    }
+}
+
+/**
+ * Walkability grid built from collision data, with A* pathfinding
+ * A cell is walkable when the character's hitbox fits at the cell center
+ */
+export class NavigationGrid {
+    private cellSize: number = GameConfig.navigation.cellSize
+    private originX = 0
+    private originY = 0
+    private columns = 0
+    private rows = 0
+    private walkable = new Uint8Array(0)
+
+    /**
+     * Rebuild the grid for the current map
+     * @param area walkable area in map pixels (map bounds minus padding)
+     */
+    build(collisionManager: CollisionManager, area: Rectangle, entityWidth: number, entityHeight: number) {
+        this.originX = area.x
+        this.originY = area.y
+        this.columns = Math.max(0, Math.floor(area.width / this.cellSize))
+        this.rows = Math.max(0, Math.floor(area.height / this.cellSize))
+        this.walkable = new Uint8Array(this.columns * this.rows)
+
+        const halfWidth = entityWidth / 2
+        const halfHeight = entityHeight / 2
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.columns; col++) {
+                const { x, y } = this.cellCenter(col, row)
+                const blocked = collisionManager.checkRectCollision(
+                    x - halfWidth,
+                    y - halfHeight,
+                    entityWidth,
+                    entityHeight
+                )
+                this.walkable[row * this.columns + col] = blocked ? 0 : 1
+            }
+        }
+
+        console.log(`🧭 Navigation grid built: ${this.columns}x${this.rows} cells`)
+    }
+
+    /**
+     * Find a path between two map points
+     * Returns waypoints (excluding the start) or null when the goal can't be reached
+     * A blocked goal is moved to the nearest walkable cell
+     */
+    findPath(from: PathPoint, to: PathPoint): PathPoint[] | null {
+        const start = this.nearestWalkable(this.cellAt(from))
+        const goal = this.nearestWalkable(this.cellAt(to))
+        if (start === null || goal === null) return null
+        if (start === goal) return [this.isWalkableIndex(this.cellAt(to)) ? to : this.indexCenter(goal)]
+
+        const cellCount = this.columns * this.rows
+        const gScore = new Float32Array(cellCount).fill(Infinity)
+        const cameFrom = new Int32Array(cellCount).fill(-1)
+        const closed = new Uint8Array(cellCount)
+        const open = new OpenSet()
+
+        const goalCol = goal % this.columns
+        const goalRow = Math.floor(goal / this.columns)
+        // Octile distance - exact for 8-way moves without obstacles
+        const heuristic = (index: number) => {
+            const dx = Math.abs((index % this.columns) - goalCol)
+            const dy = Math.abs(Math.floor(index / this.columns) - goalRow)
+            return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy)
+        }
+
+        gScore[start] = 0
+        open.push(start, heuristic(start))
+
+        let expanded = 0
+        while (open.size > 0) {
+            const current = open.pop()
+            if (current === goal) break
+            if (closed[current]) continue
+            closed[current] = 1
+
+            if (++expanded > GameConfig.navigation.maxSearchNodes) return null
+
+            const col = current % this.columns
+            const row = Math.floor(current / this.columns)
+            for (const [dx, dy, cost] of NEIGHBOURS) {
+                const nextCol = col + dx
+                const nextRow = row + dy
+                if (!this.isWalkable(nextCol, nextRow)) continue
+                // No cutting corners past walls on diagonal steps
+                if (dx !== 0 && dy !== 0 && (!this.isWalkable(col + dx, row) || !this.isWalkable(col, row + dy))) {
+                    continue
+                }
+
+                const next = nextRow * this.columns + nextCol
+                const tentative = gScore[current] + cost
+                if (tentative < gScore[next]) {
+                    gScore[next] = tentative
+                    cameFrom[next] = current
+                    open.push(next, tentative + heuristic(next))
+                }
+            }
+        }
+
+        if (cameFrom[goal] === -1) return null
+
+        const cells: number[] = []
+        for (let index = goal; index !== -1; index = cameFrom[index]) {
+            cells.push(index)
+        }
+        cells.reverse()
+
+        const path = this.smoothPath(cells).map((index) => this.indexCenter(index))
+        // Finish on the exact clicked point when it's standable
+        if (goal === this.cellAt(to)) path[path.length - 1] = to
+        return path
+    }
+
+    /**
+     * Drop waypoints that can be skipped in a straight line (string pulling)
+     * The start cell is not included in the result
+     */
+    private smoothPath(cells: number[]): number[] {
+        const result: number[] = []
+        let anchor = 0
+        while (anchor < cells.length - 1) {
+            let next = anchor + 1
+            while (next + 1 < cells.length && this.hasLineOfSight(cells[anchor], cells[next + 1])) {
+                next++
+            }
+            result.push(cells[next])
+            anchor = next
+        }
+        return result
+    }
+
+    /**
+     * Check that every cell a straight line passes through is walkable
+     * Samples at a quarter cell so the hitbox never clips a blocked corner
+     */
+    private hasLineOfSight(fromIndex: number, toIndex: number): boolean {
+        const from = this.indexCenter(fromIndex)
+        const to = this.indexCenter(toIndex)
+        const distance = Math.hypot(to.x - from.x, to.y - from.y)
+        const steps = Math.ceil(distance / (this.cellSize / 4))
+        for (let i = 1; i < steps; i++) {
+            const t = i / steps
+            const x = from.x + (to.x - from.x) * t
+            const y = from.y + (to.y - from.y) * t
+            // Check the neighbourhood the hitbox may overlap while between cell centers
+            const col = (x - this.originX) / this.cellSize - 0.5
+            const row = (y - this.originY) / this.cellSize - 0.5
+            if (
+                !this.isWalkable(Math.floor(col), Math.floor(row)) ||
+                !this.isWalkable(Math.ceil(col), Math.floor(row)) ||
+                !this.isWalkable(Math.floor(col), Math.ceil(row)) ||
+                !this.isWalkable(Math.ceil(col), Math.ceil(row))
+            ) {
+                return false
+            }
+        }
+        return true
+    }
+
+    /**
+     * Breadth-first search outward for the closest walkable cell
+     */
+    private nearestWalkable(index: number | null): number | null {
+        if (index === null) return null
+        if (this.walkable[index]) return index
+
+        const maxRadius = GameConfig.navigation.snapRadius
+        const col = index % this.columns
+        const row = Math.floor(index / this.columns)
+        for (let radius = 1; radius <= maxRadius; radius++) {
+            let best: number | null = null
+            let bestDistance = Infinity
+            for (let dy = -radius; dy <= radius; dy++) {
+                for (let dx = -radius; dx <= radius; dx++) {
+                    // Only the ring at this radius
+                    if (Math.max(Math.abs(dx), Math.abs(dy)) !== radius) continue
+                    if (!this.isWalkable(col + dx, row + dy)) continue
+                    const distance = dx * dx + dy * dy
+                    if (distance < bestDistance) {
+                        bestDistance = distance
+                        best = (row + dy) * this.columns + (col + dx)
+                    }
+                }
+            }
+            if (best !== null) return best
+        }
+        return null
+    }
+
+    private cellAt(point: PathPoint): number | null {
+        const col = Math.floor((point.x - this.originX) / this.cellSize)
+        const row = Math.floor((point.y - this.originY) / this.cellSize)
+        if (col < 0 || row < 0 || col >= this.columns || row >= this.rows) {
+            // Clamp outside clicks onto the grid edge
+            if (this.columns === 0 || this.rows === 0) return null
+            const clampedCol = Math.max(0, Math.min(this.columns - 1, col))
+            const clampedRow = Math.max(0, Math.min(this.rows - 1, row))
+            return clampedRow * this.columns + clampedCol
+        }
+        return row * this.columns + col
+    }
+
+    private isWalkable(col: number, row: number): boolean {
+        if (col < 0 || row < 0 || col >= this.columns || row >= this.rows) return false
+        return this.walkable[row * this.columns + col] === 1
+    }
+
+    private isWalkableIndex(index: number | null): boolean {
+        return index !== null && this.walkable[index] === 1
+    }
+
+    private cellCenter(col: number, row: number): PathPoint {
+        return {
+            x: this.originX + (col + 0.5) * this.cellSize,
+            y: this.originY + (row + 0.5) * this.cellSize,
+        }
+    }
+
+    private indexCenter(index: number): PathPoint {
+        return this.cellCenter(index % this.columns, Math.floor(index / this.columns))
+    }
+}
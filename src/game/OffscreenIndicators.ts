@@ -0,0 +1,137 @@
+import * as PIXI from 'pixi.js'
+
+import { GameConfig } from '../config/gameConfig'
+import { Camera } from './Camera'
+
+export interface IndicatorTarget {
+    id: string // Unique across kinds, e.g. 'chest:12' / 'boss:3'
+    x: number
+    y: number
+    color: string | number
+}
+
+interface Indicator {
+    container: PIXI.Container
+    arrow: PIXI.Graphics
+    label: PIXI.Text
+    color: string | number
+    seen: boolean // Still in the target list this frame
+}
+
+/**
+ * Arrows on the screen edge pointing at chests and bosses outside the viewport
+ * Lives on the stage (screen space) above the map; arrows fade out as their target comes into view
+ */
+export class OffscreenIndicators {
+    private container: PIXI.Container
+    private screen: PIXI.Rectangle
+    private indicators = new Map<string, Indicator>()
+    private enabled = true
+
+    constructor(screen: PIXI.Rectangle) {
+        this.screen = screen
+        this.container = new PIXI.Container()
+        this.container.label = 'offscreen-indicators'
+        this.container.eventMode = 'none'
+    }
+
+    /**
+     * Reposition every indicator for this frame
+     * @param from distance labels are measured from here (the local player)
+     */
+    update(camera: Camera, from: { x: number; y: number }, targets: IndicatorTarget[], deltaTime: number) {
+        const { edgeMargin, fadeSpeed, pixelsPerMeter } = GameConfig.indicators
+        const centerX = this.screen.width / 2
+        const centerY = this.screen.height / 2
+        const fade = Math.min(1, fadeSpeed * deltaTime)
+
+        for (const indicator of this.indicators.values()) indicator.seen = false
+
+        for (const target of targets) {
+            const indicator = this.getIndicator(target)
+            indicator.seen = true
+
+            const screenPos = camera.worldToScreen(target.x, target.y)
+            const onScreen =
+                screenPos.x >= 0 &&
+                screenPos.x <= this.screen.width &&
+                screenPos.y >= 0 &&
+                screenPos.y <= this.screen.height
+            const alpha = this.enabled && !onScreen ? 1 : 0
+            indicator.container.alpha += (alpha - indicator.container.alpha) * fade
+            indicator.container.visible = indicator.container.alpha > 0.01
+            if (!indicator.container.visible) continue
+
+            // Project the direction from the screen center onto the inset screen edge
+            const dx = screenPos.x - centerX
+            const dy = screenPos.y - centerY
+            const scaleX = dx === 0 ? Infinity : (centerX - edgeMargin) / Math.abs(dx)
+            const scaleY = dy === 0 ? Infinity : (centerY - edgeMargin) / Math.abs(dy)
+            const scale = Math.min(scaleX, scaleY, 1)
+            indicator.container.position.set(centerX + dx * scale, centerY + dy * scale)
+            indicator.arrow.rotation = Math.atan2(dy, dx)
+
+            // Label sits just inside the arrow
+            const length = Math.hypot(dx, dy) || 1
+            indicator.label.position.set((-dx / length) * 24, (-dy / length) * 24)
+            const meters = Math.round(Math.hypot(target.x - from.x, target.y - from.y) / pixelsPerMeter)
+            indicator.label.text = `${meters}m`
+        }
+
+        // Fade out and drop indicators whose target is gone (opened chest, defeated boss)
+        for (const [id, indicator] of this.indicators) {
+            if (indicator.seen) continue
+            indicator.container.alpha -= indicator.container.alpha * fade
+            if (indicator.container.alpha <= 0.01) {
+                indicator.container.destroy({ children: true })
+                this.indicators.delete(id)
+            }
+        }
+    }
+
+    setEnabled(enabled: boolean) {
+        this.enabled = enabled
+    }
+
+    getContainer(): PIXI.Container {
+        return this.container
+    }
+
+    destroy(): void {
+        this.container.destroy({ children: true })
+        this.indicators.clear()
+    }
+
+    private getIndicator(target: IndicatorTarget): Indicator {
+        const existing = this.indicators.get(target.id)
+        if (existing && existing.color === target.color) return existing
+        existing?.container.destroy({ children: true })
+
+        const container = new PIXI.Container()
+        container.alpha = 0
+
+        // Arrow pointing along +x, rotated toward the target
+        const arrow = new PIXI.Graphics()
+        arrow.poly([14, 0, -8, -10, -3, 0, -8, 10], true)
+        arrow.fill({ color: target.color, alpha: 0.95 })
+        arrow.stroke({ color: 0x000000, width: 2, alpha: 0.8 })
+
+        const label = new PIXI.Text({
+            text: '',
+            style: {
+                fontSize: 12,
+                fontWeight: '700',
+                fill: 0xffffff,
+                stroke: { color: 0x000000, width: 3 },
+            },
+        })
+        label.anchor.set(0.5)
+
+        container.addChild(arrow, label)
+        this.container.addChild(container)
+
+        const indicator: Indicator = { container, arrow, label, color: target.color, seen: false }
+        this.indicators.set(target.id, indicator)
+        return indicator
+    }
+}
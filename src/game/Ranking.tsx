@@ -12,11 +12,14 @@ interface RankingPlayer {
 interface RankingProps {
     players: RankingPlayer[]
     localPlayerId: string | null
+    // Spectator mode: clicking an online player follows them
+    onSelectPlayer?: (playerId: string) => void
+    selectedPlayerId?: string | null
 }
 
 type RankingTab = 'online' | 'alltime'
 
-export const Ranking = ({ players, localPlayerId }: RankingProps) => {
+export const Ranking = ({ players, localPlayerId, onSelectPlayer, selectedPlayerId = null }: RankingProps) => {
     const [isExpanded, setIsExpanded] = useState(false)
     const [activeTab, setActiveTab] = useState<RankingTab>('online')
     const [allTimePlayers, setAllTimePlayers] = useState<RankingPlayer[]>([])
@@ -176,6 +179,8 @@ export const Ranking = ({ players, localPlayerId }: RankingProps) => {
                                                 onlineDisplayState.localPlayerRank
                                             :   displayIndex + 1
                                         const needsSeparator = onlineDisplayState.showSeparator && displayIndex === 8
+                                        const isHighlighted =
+                                            player.id === localPlayerId || player.id === selectedPlayerId
                                         return (
                                             <div key={`${player.id}-${displayIndex}`}>
                                                 {needsSeparator && (
@@ -187,6 +192,8 @@ export const Ranking = ({ players, localPlayerId }: RankingProps) => {
                                                     />
                                                 )}
                                                 <div
+                                                    onClick={onSelectPlayer && (() => onSelectPlayer(player.id))}
+                                                    title={onSelectPlayer && 'クリックで追従'}
                                                     style={{
                                                         height: 36,
                                                         borderRadius: 8,
@@ -196,12 +203,13 @@ export const Ranking = ({ players, localPlayerId }: RankingProps) => {
                                                         gap: 8,
                                                         padding: '0 10px',
                                                         marginBottom: 6,
+                                                        cursor: onSelectPlayer ? 'pointer' : undefined,
                                                         background:
-                                                            player.id === localPlayerId ?
-                                                                'rgba(56,189,248,0.18)'
-                                                            :   'rgba(15,23,42,0.45)',
+                                                            isHighlighted ? 'rgba(56,189,248,0.18)' : (
+                                                                'rgba(15,23,42,0.45)'
+                                                            ),
                                                         border:
-                                                            player.id === localPlayerId ?
+                                                            isHighlighted ?
                                                                 '1px solid rgba(56,189,248,0.55)'
                                                             :   '1px solid rgba(148,163,184,0.25)',
                                                     }}
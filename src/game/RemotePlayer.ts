@@ -5,12 +5,23 @@ import { LoadingIndicator } from './LoadingIndicator'
 import { EquipmentLayer } from './equipment/EquipmentService'
 import { type PlayerEquipment } from './equipment/types'
 
+type Direction = 'down' | 'up' | 'left' | 'right'
+
+// Position received from the server, stamped with the local receive time
+interface PositionSnapshot {
+    time: number
+    x: number
+    y: number
+    direction: Direction
+    isMoving: boolean
+}
+
 export class RemotePlayer {
     private container: PIXI.Container
     private avatarLayer: PIXI.Container
     private uiLayer: PIXI.Container
     private sprite: PIXI.AnimatedSprite | null = null
-    private currentDirection: 'down' | 'up' | 'left' | 'right' = 'down'
+    private currentDirection: Direction = 'down'
     private playerId: string
     private nameText: PIXI.Text
     private nameBgTexts: PIXI.Text[] = []
@@ -18,6 +29,10 @@ export class RemotePlayer {
     private emojiText: PIXI.Text | null = null
     private loadingIndicator: LoadingIndicator
     private equipmentLayer: EquipmentLayer
+    private snapshots: PositionSnapshot[] = [] // Oldest first
+    private renderOffset = { x: 0, y: 0 } // Drawn minus interpolated position, eased out each frame
+    private blendPending = false // A snapshot arrived - blend from where the sprite is drawn now
+    private lastUpdateTime: number | null = null
 
     constructor(playerId: string, x: number, y: number, name?: string, equipment?: PlayerEquipment) {
         this.playerId = playerId
@@ -111,7 +126,7 @@ export class RemotePlayer {
         await this.equipmentLayer.setDirection('down')
     }
 
-    private async loadAnimation(direction: 'down' | 'up' | 'left' | 'right'): Promise<void> {
+    private async loadAnimation(direction: Direction): Promise<void> {
         const basePath = GameConfig.assets.characterFrames
         const frameCount = GameConfig.animations.walkDown // All directions have same frame count
 
@@ -163,12 +178,103 @@ export class RemotePlayer {
         }
     }
 
-    updatePosition(x: number, y: number, direction: 'down' | 'up' | 'left' | 'right', isMoving: boolean = true): void {
-        // Smooth interpolation (lerp)
-        const lerpFactor = 0.15
-        this.container.x += (x - this.container.x) * lerpFactor
-        this.container.y += (y - this.container.y) * lerpFactor
+    /**
+     * Buffer a position from the server - the sprite gets there in update()
+     */
+    updatePosition(
+        x: number,
+        y: number,
+        direction: Direction,
+        isMoving: boolean = true,
+        time = performance.now()
+    ): void {
+        const { interpolationDelay, snapDistance, bufferSize } = GameConfig.remotePlayers
+        const last = this.snapshots[this.snapshots.length - 1]
+        const snapshot = { time, x, y, direction, isMoving }
+
+        // Teleports (respawn, warp) snap instead of gliding across the map
+        const from = last ?? { x: this.container.x, y: this.container.y }
+        if (Math.hypot(x - from.x, y - from.y) > snapDistance) {
+            this.container.position.set(x, y)
+            this.snapshots = [snapshot]
+            this.renderOffset = { x: 0, y: 0 }
+            this.blendPending = false
+            this.applyState(direction, isMoving)
+            return
+        }
+
+        // After a pause (idle or late packets) the buffer is already used up -
+        // start again from where the sprite is drawn now so it doesn't jump
+        if (!last || last.time < time - interpolationDelay) {
+            this.snapshots = [
+                {
+                    time: time - interpolationDelay,
+                    x: this.container.x,
+                    y: this.container.y,
+                    direction: last?.direction ?? this.currentDirection,
+                    isMoving: last?.isMoving ?? this.isMoving,
+                },
+            ]
+        }
+
+        this.snapshots.push(snapshot)
+        if (this.snapshots.length > bufferSize) this.snapshots.shift()
+
+        // The new snapshot can pull the interpolated position back (e.g. after extrapolating past a late packet)
+        this.blendPending = true
+    }
+
+    /**
+     * Per-frame update: draw the player `interpolationDelay` ms in the past,
+     * between the two snapshots around that time (or a short extrapolation past the newest one)
+     */
+    update(now = performance.now()): void {
+        const { interpolationDelay, maxExtrapolation } = GameConfig.remotePlayers
+        const renderTime = now - interpolationDelay
+        const snapshots = this.snapshots
 
+        // Keep one snapshot at or before renderTime
+        while (snapshots.length > 2 && snapshots[1].time <= renderTime) snapshots.shift()
+        if (snapshots.length === 0) return
+
+        const [a, b] = snapshots
+        let x: number
+        let y: number
+        if (!b || renderTime <= a.time) {
+            x = a.x
+            y = a.y
+            this.applyState(a.direction, a.isMoving)
+        } else if (renderTime < b.time) {
+            const t = (renderTime - a.time) / (b.time - a.time)
+            x = a.x + (b.x - a.x) * t
+            y = a.y + (b.y - a.y) * t
+            this.applyState(a.direction, a.isMoving)
+        } else {
+            // Next packet is late - keep going along the last velocity for a little while
+            const ahead = b.isMoving && b.time > a.time ? Math.min(renderTime - b.time, maxExtrapolation) : 0
+            const t = ahead / (b.time - a.time || 1)
+            x = b.x + (b.x - a.x) * t
+            y = b.y + (b.y - a.y) * t
+            this.applyState(b.direction, b.isMoving)
+        }
+
+        // Ease out the offset left by the last blend (frame-rate independent)
+        const deltaTime = this.lastUpdateTime === null ? 0 : (now - this.lastUpdateTime) / 1000
+        this.lastUpdateTime = now
+        const decay = Math.exp(-GameConfig.multiplayer.correctionSmoothing * deltaTime)
+        this.renderOffset.x = Math.abs(this.renderOffset.x * decay) < 0.05 ? 0 : this.renderOffset.x * decay
+        this.renderOffset.y = Math.abs(this.renderOffset.y * decay) < 0.05 ? 0 : this.renderOffset.y * decay
+
+        // Start from the drawn position instead of jumping to the new interpolated one
+        if (this.blendPending) {
+            this.renderOffset = { x: this.container.x - x, y: this.container.y - y }
+            this.blendPending = false
+        }
+
+        this.container.position.set(x + this.renderOffset.x, y + this.renderOffset.y)
+    }
+
+    private applyState(direction: Direction, isMoving: boolean): void {
         // Update animation if direction changed
         if (direction !== this.currentDirection) {
             this.currentDirection = direction
@@ -193,6 +299,10 @@ export class RemotePlayer {
         return this.container
     }
 
+    getPosition(): { x: number; y: number } {
+        return { x: this.container.x, y: this.container.y }
+    }
+
     getPlayerId(): string {
         return this.playerId
     }
@@ -1,17 +1,174 @@
 import * as PIXI from 'pixi.js'
 
-import type { TiledMap, TiledObject } from '../types/tiled'
+import { GameConfig } from '../config/gameConfig'
+import type {
+    TiledLayer,
+    TiledMap,
+    TiledObject,
+    TiledPoint,
+    TiledProperty,
+    TiledTileData,
+    TiledTileset,
+} from '../types/tiled'
+
+// Static tiles are baked into square chunks of this many tiles per side
+const CHUNK_SIZE = 16
+// Layer or tile property that draws tiles over players instead of under them
+const ABOVE_PLAYERS_PROPERTY = 'abovePlayers'
+// Object types / layer properties used for multi-map travel
+const TRANSITION_OBJECT_TYPE = 'transition'
+const SPAWN_OBJECT_TYPE = 'spawn'
+const TARGET_MAP_PROPERTY = 'targetMap'
+const TARGET_SPAWN_PROPERTY = 'targetSpawn'
+// Extra pixels around the viewport kept rendered to avoid pop-in while scrolling
+const CULL_MARGIN = 64
+
+// Area that sends the player to another map when walked onto
+export interface MapTransition {
+    x: number
+    y: number
+    width: number
+    height: number
+    targetMap: string
+    targetSpawn?: string
+}
+
+// Named arrival point for transitions
+export interface SpawnPoint {
+    name: string
+    x: number
+    y: number
+}
+
+// Map id -> Tiled file path; ids without an entry in the config load /maps/<id>.tmj
+export const resolveMapPath = (mapId: string): string =>
+    `${GameConfig.assets.maps}/${GameConfig.map.files[mapId] ?? `${mapId}.tmj`}`
+
+// Tiled stores flip/rotation flags in the top bits of each gid
+const FLIPPED_HORIZONTALLY_FLAG = 0x80000000
+const FLIPPED_VERTICALLY_FLAG = 0x40000000
+const FLIPPED_DIAGONALLY_FLAG = 0x20000000
+const ROTATED_HEXAGONAL_120_FLAG = 0x10000000
+const GID_MASK = ~(
+    FLIPPED_HORIZONTALLY_FLAG |
+    FLIPPED_VERTICALLY_FLAG |
+    FLIPPED_DIAGONALLY_FLAG |
+    ROTATED_HEXAGONAL_120_FLAG
+)
+
+interface ParsedGid {
+    id: number // gid with all flag bits cleared
+    flipH: boolean
+    flipV: boolean
+    flipD: boolean
+}
+
+const parseGid = (gid: number): ParsedGid => ({
+    id: gid & GID_MASK,
+    flipH: (gid & FLIPPED_HORIZONTALLY_FLAG) !== 0,
+    flipV: (gid & FLIPPED_VERTICALLY_FLAG) !== 0,
+    flipD: (gid & FLIPPED_DIAGONALLY_FLAG) !== 0,
+})
+
+// Runtime state for one animated gid - all sprites of the same gid share a frame
+interface AnimatedTile {
+    frames: PIXI.Texture[]
+    durations: number[]
+    totalDuration: number
+    currentFrame: number
+    sprites: PIXI.Sprite[]
+}
+
+// Tile layer flattened out of its groups, with offsets, opacity, tint and parallax inherited
+interface ResolvedTileLayer {
+    name: string
+    data: ArrayLike<number> // Dense gids covering tileBounds
+    offsetX: number
+    offsetY: number
+    parallaxX: number
+    parallaxY: number
+    opacity: number
+    tint: number
+    abovePlayers: boolean
+}
+
+// One baked region of a layer stack - culled as a whole against the viewport
+interface TileChunk {
+    container: PIXI.Container
+    bounds: PIXI.Rectangle // Relative to the stack container
+}
+
+// Consecutive layers sharing offset and parallax, baked into one set of chunks
+interface LayerStack {
+    container: PIXI.Container
+    offsetX: number
+    offsetY: number
+    parallaxX: number
+    parallaxY: number
+    chunks: TileChunk[]
+}
+
+const getBoolProperty = (properties: TiledProperty[] | undefined, name: string): boolean =>
+    properties?.some((prop) => prop.name === name && prop.value === true) ?? false
+
+const getStringProperty = (properties: TiledProperty[] | undefined, name: string): string | undefined => {
+    const value = properties?.find((prop) => prop.name === name)?.value
+    return typeof value === 'string' && value.length > 0 ? value : undefined
+}
+
+// Multiply two 0xRRGGBB colors channel by channel
+const multiplyTint = (a: number, b: number): number => {
+    const r = (((a >> 16) & 0xff) * ((b >> 16) & 0xff)) / 255
+    const g = (((a >> 8) & 0xff) * ((b >> 8) & 0xff)) / 255
+    const bl = ((a & 0xff) * (b & 0xff)) / 255
+    return (Math.round(r) << 16) | (Math.round(g) << 8) | Math.round(bl)
+}
+
+// Parse Tiled's #RRGGBB / #AARRGGBB tint into a color and an alpha multiplier
+const parseTintColor = (value?: string): { color: number; alpha: number } => {
+    if (!value) return { color: 0xffffff, alpha: 1 }
+
+    const hex = value.replace('#', '')
+    if (hex.length === 8) {
+        return { color: parseInt(hex.slice(2), 16), alpha: parseInt(hex.slice(0, 2), 16) / 255 }
+    }
+    return { color: parseInt(hex, 16), alpha: 1 }
+}
 
 export class TiledMapLoader {
     private mapData: TiledMap | null = null
     private collisionObjects: TiledObject[] = []
+    private transitions: MapTransition[] = []
+    private spawnPoints: Map<string, SpawnPoint> = new Map()
     private container: PIXI.Container
+    private entityLayer: PIXI.Container
+    private renderer: PIXI.Renderer | null = null
+    private tileDataByGid: Map<number, TiledTileData> = new Map()
+    private tileTextures: Map<number, PIXI.Texture> = new Map()
+    private animatedTiles: Map<number, AnimatedTile> = new Map()
+    private animationElapsed = 0
+    private tileBounds = new PIXI.Rectangle() // In tiles - may start below 0 on infinite maps
+    private stacks: LayerStack[] = []
+    private bakedTextures: PIXI.RenderTexture[] = []
+    private ticker: PIXI.Ticker | null = null
+    private screen: PIXI.Rectangle | null = null
 
     constructor() {
         this.container = new PIXI.Container()
+
+        // Characters, chests and bosses live here and are drawn in y order
+        this.entityLayer = new PIXI.Container()
+        this.entityLayer.label = 'entities'
+        this.entityLayer.sortableChildren = true
     }
 
-    async loadMap(mapPath: string): Promise<PIXI.Container> {
+    /**
+     * Load a Tiled map and build its display tree
+     * When a renderer is given, static tiles are baked into chunk render textures
+     */
+    async loadMap(mapPath: string, renderer?: PIXI.Renderer): Promise<PIXI.Container> {
+        this.renderer = renderer ?? null
+
         try {
             // Load map JSON
             const response = await fetch(mapPath)
@@ -22,11 +179,20 @@ export class TiledMapLoader {
             // Load tileset images
             await this.loadTilesets()
 
+            // Index per-tile data (animations, properties) by gid
+            this.indexTileData()
+
             // Render tile layers
             this.renderTileLayers()
 
-            // Load collision objects from Object Layers
-            this.loadCollisionObjects()
+            // Load collision, transition and spawn objects from Object Layers
+            this.loadObjectLayers()
+
+            // Tile layers tagged with a target map become transition areas
+            this.loadTransitionLayers()
+
+            // Collision shapes drawn on tiles in the tileset editor
+            this.loadTileCollisions()
 
             return this.container
         } catch (error) {
@@ -74,59 +240,406 @@ export class TiledMapLoader {
         }
     }
 
+    private indexTileData(): void {
+        if (!this.mapData) return
+
+        for (const tileset of this.mapData.tilesets) {
+            for (const tile of tileset.tiles ?? []) {
+                this.tileDataByGid.set(tileset.firstgid + tile.id, tile)
+            }
+        }
+    }
+
+    /**
+     * Compute the tile region covered by the map
+     * Finite maps use width x height; infinite maps use the union of all layer chunks
+     */
+    private computeTileBounds(): void {
+        if (!this.mapData) return
+
+        if (!this.mapData.infinite) {
+            this.tileBounds = new PIXI.Rectangle(0, 0, this.mapData.width, this.mapData.height)
+            return
+        }
+
+        let minX = Infinity
+        let minY = Infinity
+        let maxX = -Infinity
+        let maxY = -Infinity
+        const visit = (layers: TiledLayer[]) => {
+            for (const layer of layers) {
+                if (layer.type === 'group' && layer.layers) visit(layer.layers)
+                for (const chunk of layer.chunks ?? []) {
+                    minX = Math.min(minX, chunk.x)
+                    minY = Math.min(minY, chunk.y)
+                    maxX = Math.max(maxX, chunk.x + chunk.width)
+                    maxY = Math.max(maxY, chunk.y + chunk.height)
+                }
+            }
+        }
+        visit(this.mapData.layers)
+
+        this.tileBounds =
+            minX === Infinity ? new PIXI.Rectangle() : new PIXI.Rectangle(minX, minY, maxX - minX, maxY - minY)
+    }
+
+    /**
+     * Flatten group layers into a list of tile layers in draw order
+     * Offsets and parallax factors add/multiply down the tree, as do opacity and tint
+     */
+    private resolveTileLayers(
+        layers: TiledLayer[],
+        parent: Omit<ResolvedTileLayer, 'name' | 'data'>,
+        out: ResolvedTileLayer[] = []
+    ): ResolvedTileLayer[] {
+        for (const layer of layers) {
+            // Hidden layers (and everything inside hidden groups) are skipped like in the Tiled editor
+            if (layer.visible === false) continue
+
+            const tint = parseTintColor(layer.tintcolor)
+            const resolved = {
+                offsetX: parent.offsetX + (layer.offsetx ?? 0),
+                offsetY: parent.offsetY + (layer.offsety ?? 0),
+                parallaxX: parent.parallaxX * (layer.parallaxx ?? 1),
+                parallaxY: parent.parallaxY * (layer.parallaxy ?? 1),
+                opacity: parent.opacity * (layer.opacity ?? 1) * tint.alpha,
+                tint: multiplyTint(parent.tint, tint.color),
+                abovePlayers: parent.abovePlayers || getBoolProperty(layer.properties, ABOVE_PLAYERS_PROPERTY),
+            }
+
+            if (layer.type === 'group' && layer.layers) {
+                this.resolveTileLayers(layer.layers, resolved, out)
+            } else if (layer.type === 'tilelayer') {
+                const data = this.getDenseLayerData(layer)
+                if (data) out.push({ name: layer.name, data, ...resolved })
+            }
+        }
+        return out
+    }
+
+    /**
+     * Get a tile layer's gids as one dense array over tileBounds
+     * Infinite map chunks are copied into place; finite layer data is used as-is
+     */
+    private getDenseLayerData(layer: TiledLayer): ArrayLike<number> | null {
+        if (!layer.chunks) return layer.data ?? null
+
+        const bounds = this.tileBounds
+        const data = new Uint32Array(bounds.width * bounds.height)
+        for (const chunk of layer.chunks) {
+            for (let row = 0; row < chunk.height; row++) {
+                for (let col = 0; col < chunk.width; col++) {
+                    const gid = chunk.data[row * chunk.width + col]
+                    if (gid === 0) continue
+                    const index = (chunk.y + row - bounds.y) * bounds.width + (chunk.x + col - bounds.x)
+                    data[index] = gid
+                }
+            }
+        }
+        return data
+    }
+
+    /**
+     * Render tile layers as baked chunks
+     * Consecutive layers sharing offset and parallax are merged into one stack so each chunk
+     * costs a single texture; a layer with animated tiles closes its stack so live sprites
+     * keep their draw order
+     */
     private renderTileLayers(): void {
         if (!this.mapData) return
 
-        const { width, tilewidth, tileheight, layers, tilesets } = this.mapData
+        this.computeTileBounds()
+        const layers = this.resolveTileLayers(this.mapData.layers, {
+            offsetX: 0,
+            offsetY: 0,
+            parallaxX: 1,
+            parallaxY: 1,
+            opacity: 1,
+            tint: 0xffffff,
+            abovePlayers: false,
+        })
+
+        // Entities go in at the first "above players" layer; everything from there up stays above them,
+        // so neither pass reorders layers relative to each other
+        const split = layers.findIndex((layer) => layer.abovePlayers)
+        if (split >= 0) {
+            for (const layer of layers.slice(split)) layer.abovePlayers = true
+        }
 
-        // Process each layer
+        // Tiles under players, then the y-sorted entities, then tiles drawn over players
+        this.renderDepthPass(
+            layers.filter((layer) => !layer.abovePlayers),
+            false
+        )
+        this.container.addChild(this.entityLayer)
+        this.renderDepthPass(layers, true)
+    }
+
+    private renderDepthPass(layers: ResolvedTileLayer[], abovePlayers: boolean): void {
+        let stack: ResolvedTileLayer[] = []
         for (const layer of layers) {
-            if (layer.type !== 'tilelayer' || !layer.data) continue
+            const previous = stack[stack.length - 1]
+            if (
+                previous &&
+                (previous.offsetX !== layer.offsetX ||
+                    previous.offsetY !== layer.offsetY ||
+                    previous.parallaxX !== layer.parallaxX ||
+                    previous.parallaxY !== layer.parallaxY)
+            ) {
+                this.renderLayerStack(stack, abovePlayers)
+                stack = []
+            }
+
+            stack.push(layer)
+            if (this.hasAnimatedTiles(layer.data)) {
+                this.renderLayerStack(stack, abovePlayers)
+                stack = []
+            }
+        }
+
+        if (stack.length > 0) {
+            this.renderLayerStack(stack, abovePlayers)
+        }
+    }
+
+    private renderLayerStack(layers: ResolvedTileLayer[], abovePlayers: boolean): void {
+        if (!this.mapData) return
+
+        const { tilewidth, tileheight } = this.mapData
+        const bounds = this.tileBounds
+        const { offsetX, offsetY, parallaxX, parallaxY } = layers[0]
+
+        const stack: LayerStack = {
+            container: new PIXI.Container(),
+            offsetX,
+            offsetY,
+            parallaxX,
+            parallaxY,
+            chunks: [],
+        }
+        stack.container.label = layers.map((layer) => layer.name).join(' + ')
+        stack.container.x = offsetX
+        stack.container.y = offsetY
+
+        const chunkColumns = Math.ceil(bounds.width / CHUNK_SIZE)
+        const chunkRows = Math.ceil(bounds.height / CHUNK_SIZE)
+
+        for (let chunkY = 0; chunkY < chunkRows; chunkY++) {
+            for (let chunkX = 0; chunkX < chunkColumns; chunkX++) {
+                // Rows/columns are relative to tileBounds
+                const startCol = chunkX * CHUNK_SIZE
+                const startRow = chunkY * CHUNK_SIZE
+                const endCol = Math.min(startCol + CHUNK_SIZE, bounds.width)
+                const endRow = Math.min(startRow + CHUNK_SIZE, bounds.height)
+
+                const staticTiles = new PIXI.Container()
+                const animatedSprites: PIXI.Sprite[] = []
+
+                for (const layer of layers) {
+                    for (let row = startRow; row < endRow; row++) {
+                        for (let col = startCol; col < endCol; col++) {
+                            const gid = layer.data[row * bounds.width + col]
+                            if (gid === 0) continue // Empty tile
+
+                            const tile = parseGid(gid)
+                            if (this.isAbovePlayers(layer, tile.id) !== abovePlayers) continue
+
+                            const sprite = this.createTileSprite(tile.id)
+                            if (!sprite) continue
+
+                            // Positions are relative to the chunk origin
+                            sprite.x = (col - startCol) * tilewidth
+                            sprite.y = (row - startRow) * tileheight
+                            sprite.alpha = layer.opacity
+                            sprite.tint = layer.tint
+                            this.applyFlipFlags(sprite, tile, tilewidth, tileheight)
+
+                            if (this.isAnimatedGid(tile.id)) {
+                                animatedSprites.push(sprite)
+                            } else {
+                                staticTiles.addChild(sprite)
+                            }
+                        }
+                    }
+                }
+
+                if (staticTiles.children.length === 0 && animatedSprites.length === 0) {
+                    staticTiles.destroy()
+                    continue
+                }
 
-            const layerContainer = new PIXI.Container()
-            layerContainer.name = layer.name
-            layerContainer.alpha = layer.opacity
+                const chunkBounds = new PIXI.Rectangle(
+                    (bounds.x + startCol) * tilewidth,
+                    (bounds.y + startRow) * tileheight,
+                    (endCol - startCol) * tilewidth,
+                    (endRow - startRow) * tileheight
+                )
 
-            // Render tiles
-            for (let i = 0; i < layer.data.length; i++) {
-                const gid = layer.data[i]
-                if (gid === 0) continue // Empty tile
+                const chunkContainer = new PIXI.Container()
+                chunkContainer.x = chunkBounds.x
+                chunkContainer.y = chunkBounds.y
 
-                const x = (i % width) * tilewidth
-                const y = Math.floor(i / width) * tileheight
+                if (staticTiles.children.length > 0) {
+                    chunkContainer.addChild(this.bakeChunk(staticTiles, chunkBounds.width, chunkBounds.height))
+                } else {
+                    staticTiles.destroy()
+                }
 
-                const sprite = this.createTileSprite(gid, tilesets, tilewidth, tileheight)
-                if (sprite) {
-                    sprite.x = x
-                    sprite.y = y
-                    layerContainer.addChild(sprite)
+                // Animated tiles stay live on top of the baked static tiles
+                for (const sprite of animatedSprites) {
+                    chunkContainer.addChild(sprite)
                 }
+
+                stack.container.addChild(chunkContainer)
+                stack.chunks.push({ container: chunkContainer, bounds: chunkBounds })
             }
+        }
 
-            this.container.addChild(layerContainer)
+        if (stack.chunks.length === 0) {
+            stack.container.destroy()
+            return
         }
+
+        this.container.addChild(stack.container)
+        this.stacks.push(stack)
     }
 
-    private createTileSprite(
-        gid: number,
-        tilesets: TiledMap['tilesets'],
-        tileWidth: number,
-        tileHeight: number
-    ): PIXI.Sprite | null {
-        // Find the correct tileset
-        let tileset = tilesets[0]
-        for (const ts of tilesets) {
+    /**
+     * Bake a chunk of static tile sprites into a single render texture
+     * Falls back to the live sprites when no renderer was provided
+     */
+    private bakeChunk(tiles: PIXI.Container, width: number, height: number): PIXI.Container {
+        if (!this.renderer) return tiles
+
+        // Nearest sampling keeps pixel art crisp when the camera zooms in on the baked chunk
+        const texture = PIXI.RenderTexture.create({ width, height, scaleMode: 'nearest' })
+        this.renderer.render({ container: tiles, target: texture })
+        this.bakedTextures.push(texture)
+
+        // Tile textures are shared through the cache, so only the sprites are destroyed
+        tiles.destroy({ children: true })
+
+        return new PIXI.Sprite(texture)
+    }
+
+    private findTileset(gid: number): TiledTileset | null {
+        if (!this.mapData) return null
+
+        let tileset: TiledTileset | null = null
+        for (const ts of this.mapData.tilesets) {
             if (gid >= ts.firstgid) {
                 tileset = ts
             } else {
                 break
             }
         }
+        return tileset
+    }
+
+    private isAbovePlayers(layer: ResolvedTileLayer, gid: number): boolean {
+        return layer.abovePlayers || getBoolProperty(this.tileDataByGid.get(gid)?.properties, ABOVE_PLAYERS_PROPERTY)
+    }
+
+    private hasAnimatedTiles(data: ArrayLike<number>): boolean {
+        if (this.tileDataByGid.size === 0) return false
+
+        for (let i = 0; i < data.length; i++) {
+            if (data[i] !== 0 && this.isAnimatedGid(parseGid(data[i]).id)) return true
+        }
+        return false
+    }
+
+    private isAnimatedGid(gid: number): boolean {
+        const animation = this.tileDataByGid.get(gid)?.animation
+        return animation !== undefined && animation.length > 0
+    }
+
+    private createTileSprite(gid: number): PIXI.Sprite | null {
+        // Animated tiles share one frame clock per gid
+        const animated = this.getAnimatedTile(gid)
+        if (animated) {
+            const sprite = new PIXI.Sprite(animated.frames[animated.currentFrame])
+            animated.sprites.push(sprite)
+            return sprite
+        }
+
+        const texture = this.getTileTexture(gid)
+        return texture ? new PIXI.Sprite(texture) : null
+    }
+
+    private getAnimatedTile(gid: number): AnimatedTile | null {
+        const existing = this.animatedTiles.get(gid)
+        if (existing) return existing
+
+        const animation = this.tileDataByGid.get(gid)?.animation
+        const tileset = this.findTileset(gid)
+        if (!animation || animation.length === 0 || !tileset) return null
+
+        const frames: PIXI.Texture[] = []
+        for (const frame of animation) {
+            const texture = this.getTileTexture(tileset.firstgid + frame.tileid)
+            if (!texture) return null
+            frames.push(texture)
+        }
+
+        const durations = animation.map((frame) => Math.max(1, frame.duration))
+        const animated: AnimatedTile = {
+            frames,
+            durations,
+            totalDuration: durations.reduce((sum, d) => sum + d, 0),
+            currentFrame: 0,
+            sprites: [],
+        }
+        this.animatedTiles.set(gid, animated)
+        return animated
+    }
 
-        if (!tileset.image) return null
+    /**
+     * Get the texture for a gid, creating it once and reusing it for every tile
+     */
+    private getTileTexture(gid: number): PIXI.Texture | null {
+        const cached = this.tileTextures.get(gid)
+        if (cached) return cached
+
+        const tileset = this.findTileset(gid)
+        if (!this.mapData || !tileset?.image) return null
+
+        const texture = this.createTileTexture(
+            tileset,
+            gid - tileset.firstgid,
+            this.mapData.tilewidth,
+            this.mapData.tileheight
+        )
+        this.tileTextures.set(gid, texture)
+        return texture
+    }
+
+    /**
+     * Apply Tiled flip flags to a tile sprite placed at its top-left corner
+     * Diagonal flip (transpose) is expressed as a 90° rotation plus a mirror
+     */
+    private applyFlipFlags(sprite: PIXI.Sprite, tile: ParsedGid, tileWidth: number, tileHeight: number): void {
+        if (!tile.flipH && !tile.flipV && !tile.flipD) return
+
+        // Transform around the tile center
+        sprite.anchor.set(0.5, 0.5)
+        sprite.x += tileWidth / 2
+        sprite.y += tileHeight / 2
+
+        if (tile.flipD) {
+            sprite.rotation = Math.PI / 2
+            sprite.scale.set(tile.flipV ? -1 : 1, tile.flipH ? 1 : -1)
+        } else {
+            sprite.scale.set(tile.flipH ? -1 : 1, tile.flipV ? -1 : 1)
+        }
+    }
 
-        // Calculate tile position in tileset
-        const localId = gid - tileset.firstgid
+    private createTileTexture(
+        tileset: TiledTileset,
+        localId: number,
+        tileWidth: number,
+        tileHeight: number
+    ): PIXI.Texture {
         const columns = tileset.columns || Math.floor((tileset.imagewidth || 0) / tileWidth)
 
         // Handle margin and spacing
@@ -140,35 +653,412 @@ export class TiledMapLoader {
         const tileY = margin + row * (tileHeight + spacing)
 
         // Create texture from tileset
-        const baseTexture = PIXI.Texture.from(tileset.image)
-        const texture = new PIXI.Texture({
+        const baseTexture = PIXI.Texture.from(tileset.image || '')
+        return new PIXI.Texture({
             source: baseTexture.source,
             frame: new PIXI.Rectangle(tileX, tileY, tileWidth, tileHeight),
         })
+    }
 
-        return new PIXI.Sprite(texture)
+    /**
+     * Drive animated tiles, chunk culling and entity y-sorting from the app ticker
+     * Animation frames are picked from a shared clock so every copy of a tile stays in sync
+     */
+    attach(ticker: PIXI.Ticker, screen: PIXI.Rectangle): void {
+        this.detach()
+
+        this.ticker = ticker
+        this.screen = screen
+        ticker.add(this.update)
     }
 
-    private loadCollisionObjects() {
+    detach(): void {
+        if (this.ticker) {
+            this.ticker.remove(this.update)
+            this.ticker = null
+        }
+        this.screen = null
+    }
+
+    /**
+     * Release the map's display tree and baked chunk textures
+     * Remove anything that should outlive the map (e.g. the local character) from the entity layer first
+     */
+    destroy(): void {
+        this.detach()
+        this.container.destroy({ children: true })
+        this.bakedTextures.forEach((texture) => texture.destroy(true))
+        this.bakedTextures = []
+        this.stacks = []
+        this.animatedTiles.clear()
+    }
+
+    private update = (ticker: PIXI.Ticker): void => {
+        this.updateAnimations(ticker.deltaMS)
+        this.updateParallax()
+        this.cullChunks()
+        this.sortEntities()
+    }
+
+    /**
+     * Y-sort entities so whoever stands lower on screen is drawn in front
+     */
+    private sortEntities(): void {
+        for (const child of this.entityLayer.children) {
+            child.zIndex = child.y
+        }
+    }
+
+    private updateAnimations(deltaMS: number): void {
+        if (this.animatedTiles.size === 0) return
+
+        this.animationElapsed += deltaMS
+
+        for (const animated of this.animatedTiles.values()) {
+            let time = this.animationElapsed % animated.totalDuration
+            let frame = 0
+            while (time >= animated.durations[frame]) {
+                time -= animated.durations[frame]
+                frame++
+            }
+
+            if (frame === animated.currentFrame) continue
+            animated.currentFrame = frame
+            const texture = animated.frames[frame]
+            for (const sprite of animated.sprites) {
+                sprite.texture = texture
+            }
+        }
+    }
+
+    /**
+     * Shift parallax stacks relative to the camera center
+     * A stack lines up with the map when the camera center sits on the map's parallax origin
+     */
+    private updateParallax(): void {
+        if (!this.screen || !this.mapData) return
+
+        const scaleX = this.container.scale.x || 1
+        const scaleY = this.container.scale.y || 1
+        const cameraX = (-this.container.x + this.screen.width / 2) / scaleX
+        const cameraY = (-this.container.y + this.screen.height / 2) / scaleY
+        const originX = this.mapData.parallaxoriginx ?? 0
+        const originY = this.mapData.parallaxoriginy ?? 0
+
+        for (const stack of this.stacks) {
+            if (stack.parallaxX === 1 && stack.parallaxY === 1) continue
+            stack.container.x = stack.offsetX + (cameraX - originX) * (1 - stack.parallaxX)
+            stack.container.y = stack.offsetY + (cameraY - originY) * (1 - stack.parallaxY)
+        }
+    }
+
+    /**
+     * Hide chunks outside the viewport (in map coordinates)
+     */
+    private cullChunks(): void {
+        if (!this.screen) return
+
+        const scaleX = this.container.scale.x || 1
+        const scaleY = this.container.scale.y || 1
+        const viewLeft = -this.container.x / scaleX - CULL_MARGIN
+        const viewTop = -this.container.y / scaleY - CULL_MARGIN
+        const viewRight = viewLeft + this.screen.width / scaleX + CULL_MARGIN * 2
+        const viewBottom = viewTop + this.screen.height / scaleY + CULL_MARGIN * 2
+
+        for (const stack of this.stacks) {
+            const stackX = stack.container.x
+            const stackY = stack.container.y
+            for (const chunk of stack.chunks) {
+                const { bounds } = chunk
+                chunk.container.visible =
+                    bounds.x + stackX < viewRight &&
+                    bounds.x + stackX + bounds.width > viewLeft &&
+                    bounds.y + stackY < viewBottom &&
+                    bounds.y + stackY + bounds.height > viewTop
+            }
+        }
+    }
+
+    private loadObjectLayers() {
         if (!this.mapData) return
 
-        // Find all Object Layers - all objectgroup layers are walls
-        for (const layer of this.mapData.layers) {
-            if (layer.type === 'objectgroup' && layer.objects) {
-                // Add all objects from objectgroup layers as collision objects
-                this.collisionObjects.push(...layer.objects)
-                console.log(`Loaded ${layer.objects.length} collision objects from layer: ${layer.name}`)
+        // Find all Object Layers (including inside groups)
+        // Transition and spawn objects are routed out; everything else is a wall
+        const visit = (layers: TiledLayer[], offsetX: number, offsetY: number) => {
+            for (const layer of layers) {
+                const layerOffsetX = offsetX + (layer.offsetx ?? 0)
+                const layerOffsetY = offsetY + (layer.offsety ?? 0)
+
+                if (layer.type === 'group' && layer.layers) {
+                    visit(layer.layers, layerOffsetX, layerOffsetY)
+                } else if (layer.type === 'objectgroup' && layer.objects) {
+                    let collisionCount = 0
+                    for (const source of layer.objects) {
+                        const obj = { ...source, x: source.x + layerOffsetX, y: source.y + layerOffsetY }
+
+                        if (obj.type === TRANSITION_OBJECT_TYPE) {
+                            const targetMap = getStringProperty(obj.properties, TARGET_MAP_PROPERTY)
+                            if (!targetMap) {
+                                console.warn(`Transition object ${obj.id} has no ${TARGET_MAP_PROPERTY} property`)
+                                continue
+                            }
+                            this.transitions.push({
+                                x: obj.x,
+                                y: obj.y,
+                                width: obj.width,
+                                height: obj.height,
+                                targetMap,
+                                targetSpawn: getStringProperty(obj.properties, TARGET_SPAWN_PROPERTY),
+                            })
+                        } else if (obj.type === SPAWN_OBJECT_TYPE) {
+                            // Point objects have no size; rectangles spawn at their center
+                            this.spawnPoints.set(obj.name, {
+                                name: obj.name,
+                                x: obj.x + obj.width / 2,
+                                y: obj.y + obj.height / 2,
+                            })
+                        } else {
+                            this.collisionObjects.push(obj)
+                            collisionCount++
+                        }
+                    }
+                    console.log(`Loaded ${collisionCount} collision objects from layer: ${layer.name}`)
+                }
             }
         }
+        visit(this.mapData.layers, 0, 0)
     }
 
-    // REMOVED: No longer using tile-based collision detection from TSJ files
-    // Now using only objectgroup layers from TMJ file for collision detection
+    /**
+     * Every tile on a tile layer with a targetMap property (e.g. 床_マップ遷移) becomes a transition area
+     */
+    private loadTransitionLayers() {
+        if (!this.mapData) return
+
+        const { tilewidth, tileheight } = this.mapData
+        const bounds = this.tileBounds
+
+        const visit = (layers: TiledLayer[], offsetX: number, offsetY: number) => {
+            for (const layer of layers) {
+                const layerOffsetX = offsetX + (layer.offsetx ?? 0)
+                const layerOffsetY = offsetY + (layer.offsety ?? 0)
+
+                if (layer.type === 'group' && layer.layers) {
+                    visit(layer.layers, layerOffsetX, layerOffsetY)
+                    continue
+                }
+
+                const targetMap = getStringProperty(layer.properties, TARGET_MAP_PROPERTY)
+                if (layer.type !== 'tilelayer' || !targetMap) continue
+
+                const data = this.getDenseLayerData(layer)
+                if (!data) continue
+
+                const targetSpawn = getStringProperty(layer.properties, TARGET_SPAWN_PROPERTY)
+                for (let i = 0; i < data.length; i++) {
+                    if (data[i] === 0) continue
+                    this.transitions.push({
+                        x: (bounds.x + (i % bounds.width)) * tilewidth + layerOffsetX,
+                        y: (bounds.y + Math.floor(i / bounds.width)) * tileheight + layerOffsetY,
+                        width: tilewidth,
+                        height: tileheight,
+                        targetMap,
+                        targetSpawn,
+                    })
+                }
+            }
+        }
+        visit(this.mapData.layers, 0, 0)
+    }
+
+    /**
+     * Every placed tile whose tileset entry has an objectgroup adds those shapes as collision
+     * Shapes are offset to the tile position and follow the tile's flip flags
+     */
+    private loadTileCollisions() {
+        if (!this.mapData || this.tileDataByGid.size === 0) return
+
+        const { tilewidth, tileheight } = this.mapData
+        const bounds = this.tileBounds
+
+        const visit = (layers: TiledLayer[], offsetX: number, offsetY: number) => {
+            for (const layer of layers) {
+                // Hidden tile layers (and hidden groups) aren't rendered, so their tiles mustn't block movement either
+                if (layer.visible === false) continue
+
+                const layerOffsetX = offsetX + (layer.offsetx ?? 0)
+                const layerOffsetY = offsetY + (layer.offsety ?? 0)
+
+                if (layer.type === 'group' && layer.layers) {
+                    visit(layer.layers, layerOffsetX, layerOffsetY)
+                    continue
+                }
+                if (layer.type !== 'tilelayer') continue
+
+                const data = this.getDenseLayerData(layer)
+                if (!data) continue
+
+                let collisionCount = 0
+                for (let i = 0; i < data.length; i++) {
+                    if (data[i] === 0) continue
+
+                    const tile = parseGid(data[i])
+                    const objects = this.tileDataByGid.get(tile.id)?.objectgroup?.objects
+                    if (!objects || objects.length === 0) continue
+
+                    const tileX = (bounds.x + (i % bounds.width)) * tilewidth + layerOffsetX
+                    const tileY = (bounds.y + Math.floor(i / bounds.width)) * tileheight + layerOffsetY
+                    for (const source of objects) {
+                        const obj = this.flipTileObject(source, tile, tilewidth, tileheight)
+                        this.collisionObjects.push({ ...obj, x: obj.x + tileX, y: obj.y + tileY })
+                        collisionCount++
+                    }
+                }
+                if (collisionCount > 0) {
+                    console.log(`Loaded ${collisionCount} tile collision objects from layer: ${layer.name}`)
+                }
+            }
+        }
+        visit(this.mapData.layers, 0, 0)
+    }
+
+    /**
+     * Mirror a tile's collision object the same way applyFlipFlags mirrors its sprite
+     * Coordinates stay relative to the tile's top-left corner
+     */
+    private flipTileObject(obj: TiledObject, tile: ParsedGid, tileWidth: number, tileHeight: number): TiledObject {
+        if (!tile.flipH && !tile.flipV && !tile.flipD) return obj
+
+        // Transpose first, then mirror - around the tile center like the sprite
+        const flipVector = (x: number, y: number): TiledPoint => {
+            const transposedX = tile.flipD ? y : x
+            const transposedY = tile.flipD ? x : y
+            return { x: tile.flipH ? -transposedX : transposedX, y: tile.flipV ? -transposedY : transposedY }
+        }
+        const flipPoint = (x: number, y: number): TiledPoint => {
+            const v = flipVector(x - tileWidth / 2, y - tileHeight / 2)
+            return { x: v.x + tileWidth / 2, y: v.y + tileHeight / 2 }
+        }
+
+        const angle = ((obj.rotation ?? 0) * Math.PI) / 180
+        const rotate = (x: number, y: number, radians: number): TiledPoint => ({
+            x: x * Math.cos(radians) - y * Math.sin(radians),
+            y: x * Math.sin(radians) + y * Math.cos(radians),
+        })
+
+        if (obj.point) {
+            return { ...obj, ...flipPoint(obj.x, obj.y) }
+        }
+
+        const outline = obj.polygon ?? obj.polyline
+        if (outline) {
+            // Bake the rotation into the points so the mirrored outline needs none
+            const points = outline.map((p) => {
+                const rotated = rotate(p.x, p.y, angle)
+                return flipPoint(obj.x + rotated.x, obj.y + rotated.y)
+            })
+            const flipped = { ...obj, x: 0, y: 0, rotation: 0 }
+            return obj.polygon ? { ...flipped, polygon: points } : { ...flipped, polyline: points }
+        }
+
+        // Rectangles and ellipses are symmetric about their center, so flip the center and the x axis
+        const half = rotate(obj.width / 2, obj.height / 2, angle)
+        const center = flipPoint(obj.x + half.x, obj.y + half.y)
+        const axis = flipVector(Math.cos(angle), Math.sin(angle))
+        let flippedAngle = Math.atan2(axis.y, axis.x)
+        // Half turns map the shape onto itself
+        if (flippedAngle < 0) flippedAngle += Math.PI
+        if (flippedAngle >= Math.PI - 1e-9) flippedAngle -= Math.PI
+
+        let { width, height } = obj
+        // Quarter turns are expressed by swapping the size so the shape stays axis-aligned
+        if (Math.abs(flippedAngle - Math.PI / 2) < 1e-9) {
+            flippedAngle = 0
+            ;[width, height] = [height, width]
+        }
+
+        const flippedHalf = rotate(width / 2, height / 2, flippedAngle)
+        return {
+            ...obj,
+            x: center.x - flippedHalf.x,
+            y: center.y - flippedHalf.y,
+            width,
+            height,
+            rotation: (flippedAngle * 180) / Math.PI,
+        }
+    }
+
+    /**
+     * Pixel bounds covered by tiles (infinite maps may start at negative coordinates)
+     */
+    getPixelBounds(): PIXI.Rectangle {
+        if (!this.mapData) return new PIXI.Rectangle()
+
+        const { tilewidth, tileheight } = this.mapData
+        return new PIXI.Rectangle(
+            this.tileBounds.x * tilewidth,
+            this.tileBounds.y * tileheight,
+            this.tileBounds.width * tilewidth,
+            this.tileBounds.height * tileheight
+        )
+    }
 
     getContainer(): PIXI.Container {
         return this.container
     }
 
+    /**
+     * Render the tile layers into a small canvas for the minimap
+     * Entities and anything else added to the map container are left out; parallax stacks are drawn unshifted
+     */
+    renderMinimap(renderer: PIXI.Renderer, maxSize: number): HTMLCanvasElement | null {
+        // Same extent the game uses for the map size (including chunks left of / above the origin)
+        const bounds = this.getPixelBounds()
+        if (bounds.width <= 0 || bounds.height <= 0) return null
+
+        // Temporarily show every chunk and hide non-tile children
+        const stackContainers = new Set(this.stacks.map((stack) => stack.container))
+        const restore: (() => void)[] = []
+        for (const child of this.container.children) {
+            if (stackContainers.has(child) || !child.visible) continue
+            child.visible = false
+            restore.push(() => (child.visible = true))
+        }
+        for (const stack of this.stacks) {
+            const { x, y } = stack.container
+            stack.container.position.set(stack.offsetX, stack.offsetY)
+            restore.push(() => stack.container.position.set(x, y))
+            for (const chunk of stack.chunks) {
+                const visible = chunk.container.visible
+                chunk.container.visible = true
+                restore.push(() => (chunk.container.visible = visible))
+            }
+        }
+
+        try {
+            const texture = renderer.generateTexture({
+                target: this.container,
+                frame: bounds,
+                resolution: maxSize / Math.max(bounds.width, bounds.height),
+            })
+            const canvas = renderer.extract.canvas(texture) as HTMLCanvasElement
+            texture.destroy(true)
+            return canvas
+        } catch (error) {
+            console.error('Failed to render minimap:', error)
+            return null
+        } finally {
+            restore.forEach((undo) => undo())
+        }
+    }
+
+    /**
+     * Container for characters, chests and bosses - sits between below- and above-player tiles
+     */
+    getEntityLayer(): PIXI.Container {
+        return this.entityLayer
+    }
+
     getMapData(): TiledMap | null {
         return this.mapData
     }
@@ -176,4 +1066,12 @@ export class TiledMapLoader {
     getCollisionObjects(): TiledObject[] {
         return this.collisionObjects
     }
+
+    getTransitions(): MapTransition[] {
+        return this.transitions
+    }
+
+    getSpawnPoint(name: string): SpawnPoint | null {
+        return this.spawnPoints.get(name) ?? null
+    }
 }
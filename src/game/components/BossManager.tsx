@@ -8,7 +8,7 @@ import { useCallback, useEffect, useRef, useState } from 'react'
 import * as PIXI from 'pixi.js'
 
 import { adminBossAPI } from '../../services/api'
-import { TiledMapLoader } from '../TiledMapLoader'
+import { TiledMapLoader, resolveMapPath } from '../TiledMapLoader'
 import { BossForm, type BossFormData } from './BossForm'
 import './BossManager.scss'
 
@@ -36,7 +36,10 @@ interface PlacingBoss {
 // Boss sprite for map markers
 const BOSS_SPRITE_PATH = '/boss/frames/boss-001.png'
 
-export const BossManager = () => {
+/**
+ * @param mapId map whose boss spawns are shown and placed
+ */
+export const BossManager = ({ mapId }: { mapId: string }) => {
     const canvasRef = useRef<HTMLDivElement>(null)
     const appRef = useRef<PIXI.Application | null>(null)
     const mapContainerRef = useRef<PIXI.Container | null>(null)
@@ -168,7 +171,7 @@ export const BossManager = () => {
 
                 // Load map
                 const mapLoader = new TiledMapLoader()
-                const mapView = await mapLoader.loadMap('/maps/map.tmj')
+                const mapView = await mapLoader.loadMap(resolveMapPath(mapId), app.renderer)
 
                 const bounds = mapView.getLocalBounds()
                 mapView.pivot.set(bounds.width / 2, bounds.height / 2)
@@ -180,7 +183,7 @@ export const BossManager = () => {
 
                 // Load existing boss spawns
                 try {
-                    const result = await adminBossAPI.getSpawns()
+                    const result = await adminBossAPI.getSpawns(mapId)
                     if (result.success && result.spawns.length > 0) {
                         const spawnData: BossSpawn[] = result.spawns.map((s: BossSpawn) => ({
                             id: s.id,
@@ -397,6 +400,7 @@ export const BossManager = () => {
         setIsSaving(true)
         try {
             const result = await adminBossAPI.createSpawn({
+                mapId,
                 x: data.position.x,
                 y: data.position.y,
                 spawnDelaySeconds: data.spawnDelaySeconds,
@@ -7,7 +7,7 @@ import { useCallback, useEffect, useRef, useState } from 'react'
 import * as PIXI from 'pixi.js'
 
 import { adminAPI } from '../../services/api'
-import { TiledMapLoader } from '../TiledMapLoader'
+import { TiledMapLoader, resolveMapPath } from '../TiledMapLoader'
 import { ChestForm, type ChestFormData } from './ChestForm'
 import './ChestManager.scss'
 
@@ -48,7 +48,10 @@ const RARITY_SPRITE: Record<string, string> = {
     legendary: '/chest/legend/chest_rare.png',
 }
 
-export const ChestManager = () => {
+/**
+ * @param mapId map whose chests are shown and placed
+ */
+export const ChestManager = ({ mapId }: { mapId: string }) => {
     const canvasRef = useRef<HTMLDivElement>(null)
     const appRef = useRef<PIXI.Application | null>(null)
     const mapContainerRef = useRef<PIXI.Container | null>(null)
@@ -193,7 +196,7 @@ export const ChestManager = () => {
 
                 // Load the map
                 const mapLoader = new TiledMapLoader()
-                const mapView = await mapLoader.loadMap('/maps/map.tmj')
+                const mapView = await mapLoader.loadMap(resolveMapPath(mapId), app.renderer)
 
                 // Center map content
                 const bounds = mapView.getLocalBounds()
@@ -206,7 +209,7 @@ export const ChestManager = () => {
 
                 // Load existing chests from DB and render markers
                 try {
-                    const result = await adminAPI.getChests()
+                    const result = await adminAPI.getChests(mapId)
                     if (result.success && result.chests.length > 0) {
                         const chestData = result.chests.map(
                             (c: { id: number; x: number; y: number; rarity: string; is_opened?: boolean }) => ({
@@ -479,7 +482,7 @@ export const ChestManager = () => {
                 await adminAPI.reloadChests()
 
                 // Refresh the admin view
-                const chestResult = await adminAPI.getChests()
+                const chestResult = await adminAPI.getChests(mapId)
                 if (chestResult.success) {
                     const chestData = chestResult.chests.map(
                         (c: { id: number; x: number; y: number; rarity: string; is_opened?: boolean }) => ({
@@ -506,6 +509,7 @@ export const ChestManager = () => {
         setIsSaving(true)
         try {
             const result = await adminAPI.createChest({
+                mapId,
                 x: data.position.x,
                 y: data.position.y,
                 rarity: data.rarity,
@@ -1,5 +1,6 @@
 import * as PIXI from 'pixi.js'
 
+import { type KeyBindings, formatKeyCode } from '../KeyBindings'
 import { type RankingPlayer } from '../MultiplayerManager'
 import { QuestionPopup } from '../QuestionPopup'
 import { Ranking } from '../Ranking'
@@ -23,6 +24,10 @@ interface GameOverlaysProps {
     bossSpawnCountdown: { bossName: string; remainingSeconds: number } | null
     onSubmitAnswer: (answer: string) => void
     onCancelQuestion: () => void
+    isTouchDevice: boolean
+    keyBindings: KeyBindings
+    onSelectPlayer?: (playerId: string) => void
+    followedPlayerId?: string | null
 }
 
 /**
@@ -41,7 +46,17 @@ export const GameOverlays = ({
     bossSpawnCountdown,
     onSubmitAnswer,
     onCancelQuestion,
+    isTouchDevice,
+    keyBindings,
+    onSelectPlayer,
+    followedPlayerId,
 }: GameOverlaysProps) => {
+    // Touch screens interact through the on-screen button; keyboards name the player's current binding
+    const interactKey =
+        isTouchDevice ? '調べるボタン'
+        : keyBindings.interact.length > 0 ? `${keyBindings.interact.map(formatKeyCode).join(' / ')}キー`
+        : '「調べる」キー' // Unbound - point at the action name from the key settings screen
+
     const formatRemaining = (seconds: number) => {
         const mm = Math.floor(seconds / 60)
         const ss = seconds % 60
@@ -81,14 +96,14 @@ export const GameOverlays = ({
                 nearbyChestPos &&
                 mapContainer &&
                 (() => {
-                    const chestScreenX = nearbyChestPos.x + mapContainer.x
-                    const chestScreenY = nearbyChestPos.y + mapContainer.y
+                    const chestScreen = mapContainer.toGlobal(nearbyChestPos)
+                    const zoom = mapContainer.scale.x
                     return (
                         <div
                             style={{
                                 position: 'absolute',
-                                top: chestScreenY - 30,
-                                left: chestScreenX + 35,
+                                top: chestScreen.y - 30 * zoom,
+                                left: chestScreen.x + 35 * zoom,
                                 background: 'rgba(0, 0, 0, 0.8)',
                                 color: 'white',
                                 padding: '6px 12px',
@@ -101,7 +116,7 @@ export const GameOverlays = ({
                                 whiteSpace: 'nowrap',
                             }}
                         >
-                            Fキーを押して <span style={{ color: '#ffd700' }}>開く</span>
+                            {interactKey}を押して <span style={{ color: '#ffd700' }}>開く</span>
                         </div>
                     )
                 })()}
@@ -112,14 +127,14 @@ export const GameOverlays = ({
                 mapContainer &&
                 !nearbyChest &&
                 (() => {
-                    const bossScreenX = nearbyBossPos.x + mapContainer.x
-                    const bossScreenY = nearbyBossPos.y + mapContainer.y
+                    const bossScreen = mapContainer.toGlobal(nearbyBossPos)
+                    const zoom = mapContainer.scale.x
                     return (
                         <div
                             style={{
                                 position: 'absolute',
-                                top: bossScreenY - 220,
-                                left: bossScreenX,
+                                top: bossScreen.y - 220 * zoom,
+                                left: bossScreen.x,
                                 transform: 'translateX(-50%)',
                                 background: 'rgba(139, 0, 0, 0.9)',
                                 color: 'white',
@@ -134,7 +149,7 @@ export const GameOverlays = ({
                                 whiteSpace: 'nowrap',
                             }}
                         >
-                            Fキーで <span style={{ color: '#ff6666' }}>ボスに挑戦</span> 🗡️
+                            {interactKey}で <span style={{ color: '#ff6666' }}>ボスに挑戦</span> 🗡️
                         </div>
                     )
                 })()}
@@ -143,6 +158,8 @@ export const GameOverlays = ({
             <Ranking
                 players={ranking}
                 localPlayerId={localPlayerId}
+                onSelectPlayer={onSelectPlayer}
+                selectedPlayerId={followedPlayerId}
             />
 
             {/* Question Popup */}
@@ -1,7 +1,10 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
 
+import { type KeyBindings } from '../KeyBindings'
 import { type WorldMessageData } from '../MultiplayerManager'
 import { type CatalogEquipmentItem, type EquipmentSlot, type PlayerEquipment } from '../equipment/types'
+import { KeyBindingsModal } from './KeyBindingsModal'
+import { Minimap, type MinimapArea, type MinimapMarkers } from './Minimap'
 
 interface GameUIProps {
     showEmojiPicker: boolean
@@ -23,6 +26,21 @@ interface GameUIProps {
     onPurchaseItem: (itemId: string) => void
     onLogout: () => void
     onUpdateProfile: (data: { username: string; email: string }) => Promise<{ success: boolean; error?: string }>
+    isTouchDevice: boolean
+    keyBindings: KeyBindings
+    onSaveKeyBindings: (bindings: KeyBindings, saveToProfile: boolean) => void
+    onKeyBindingsOpenChange: (open: boolean) => void // Game input is suspended while the editor is open
+    onWalkToNearestChest: () => void
+    isRecordingInput: boolean
+    showOffscreenIndicators: boolean
+    onToggleOffscreenIndicators: () => void
+    isReplayingInput: boolean
+    onToggleInputRecording: () => void
+    onReplayInputRecording: (file: File) => void
+    minimap: { background: HTMLCanvasElement | null; mapArea: MinimapArea } | null
+    getMinimapMarkers: () => MinimapMarkers
+    onSetWaypoint: (point: { x: number; y: number }) => void
+    onClearWaypoint: () => void
 }
 
 const SLOT_LABELS: Record<EquipmentSlot, string> = {
@@ -59,18 +77,42 @@ export const GameUI = ({
     onPurchaseItem,
     onLogout,
     onUpdateProfile,
+    isTouchDevice,
+    keyBindings,
+    onSaveKeyBindings,
+    onKeyBindingsOpenChange,
+    onWalkToNearestChest,
+    isRecordingInput,
+    showOffscreenIndicators,
+    onToggleOffscreenIndicators,
+    isReplayingInput,
+    onToggleInputRecording,
+    onReplayInputRecording,
+    minimap,
+    getMinimapMarkers,
+    onSetWaypoint,
+    onClearWaypoint,
 }: GameUIProps) => {
     const worldMessageListRef = useRef<HTMLDivElement | null>(null)
     const [activeInventoryTab, setActiveInventoryTab] = useState<EquipmentSlot>('head')
     const [activeShopTab, setActiveShopTab] = useState<EquipmentSlot>('head')
     const [showSettings, setShowSettings] = useState(false)
     const [showProfileModal, setShowProfileModal] = useState(false)
-    const [isWorldMessageCollapsed, setIsWorldMessageCollapsed] = useState(false)
+    const [showKeyBindings, setShowKeyBindings] = useState(false)
+
+    useEffect(() => {
+        onKeyBindingsOpenChange(showKeyBindings)
+    }, [showKeyBindings, onKeyBindingsOpenChange])
+    // Start collapsed on touch screens so the log doesn't cover the controls
+    const [isWorldMessageCollapsed, setIsWorldMessageCollapsed] = useState(isTouchDevice)
     const [profileUsername, setProfileUsername] = useState(currentUsername)
     const [profileEmail, setProfileEmail] = useState(currentEmail)
     const [profileError, setProfileError] = useState('')
     const [profileSaving, setProfileSaving] = useState(false)
 
+    // Phones in portrait can't fit the side-by-side inventory layout
+    const isCompactLayout = window.innerWidth < 768
+
     const ownedItems = useMemo(() => {
         const ownedSet = new Set(inventory)
         return itemCatalog.filter((item) => ownedSet.has(item.id))
@@ -163,7 +205,7 @@ export const GameUI = ({
 
     return (
         <>
-            <div style={{ position: 'absolute', left: 20, top: 20, zIndex: 9999 }}>
+            <div style={{ position: 'absolute', left: 20, top: 20, zIndex: 9999, display: 'flex', gap: 10 }}>
                 <button
                     onClick={() => setShowSettings(true)}
                     style={{
@@ -184,8 +226,34 @@ export const GameUI = ({
                         style={{ width: 24, height: 24, objectFit: 'contain', imageRendering: 'pixelated' }}
                     />
                 </button>
+                <button
+                    onClick={onWalkToNearestChest}
+                    style={{
+                        width: 42,
+                        height: 42,
+                        borderRadius: 10,
+                        border: '1px solid rgba(255,255,255,0.35)',
+                        background: 'linear-gradient(180deg, rgba(30,41,59,0.96), rgba(2,6,23,0.96))',
+                        color: '#fff',
+                        fontSize: 20,
+                    }}
+                    title='最寄りの宝箱へ移動'
+                >
+                    🧭
+                </button>
             </div>
 
+            {minimap && (
+                <Minimap
+                    background={minimap.background}
+                    mapArea={minimap.mapArea}
+                    getMarkers={getMinimapMarkers}
+                    onSetWaypoint={onSetWaypoint}
+                    onClearWaypoint={onClearWaypoint}
+                    defaultCollapsed={isCompactLayout}
+                />
+            )}
+
             <div
                 style={{
                     position: 'absolute',
@@ -303,6 +371,7 @@ export const GameUI = ({
                         ref={worldMessageListRef}
                         style={{
                             width: isWorldMessageCollapsed ? 28 : 360,
+                            maxWidth: 'calc(100vw - 96px)',
                             minHeight: 132,
                             maxHeight: 160,
                             borderRadius: 8,
@@ -411,6 +480,8 @@ export const GameUI = ({
                         style={{
                             width: 360,
                             maxWidth: '92vw',
+                            maxHeight: '90vh',
+                            overflowY: 'auto',
                             background: 'linear-gradient(165deg, rgba(15,23,42,0.98) 0%, rgba(2,6,23,0.98) 100%)',
                             border: '1px solid rgba(148,163,184,0.28)',
                             boxShadow: '0 18px 40px rgba(0,0,0,0.45)',
@@ -460,6 +531,99 @@ export const GameUI = ({
                         >
                             個人情報を変更
                         </button>
+                        <button
+                            onClick={() => {
+                                setShowSettings(false)
+                                setShowKeyBindings(true)
+                            }}
+                            style={{
+                                padding: '11px 12px',
+                                borderRadius: 10,
+                                border: '1px solid rgba(59,130,246,0.45)',
+                                background: 'linear-gradient(180deg, rgba(30,64,175,0.35), rgba(30,41,59,0.75))',
+                                color: '#dbeafe',
+                                textAlign: 'left',
+                                fontWeight: 600,
+                            }}
+                        >
+                            キー設定
+                        </button>
+                        <label
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'space-between',
+                                gap: 10,
+                                padding: '11px 12px',
+                                borderRadius: 10,
+                                border: '1px solid rgba(59,130,246,0.45)',
+                                background: 'linear-gradient(180deg, rgba(30,64,175,0.35), rgba(30,41,59,0.75))',
+                                color: '#dbeafe',
+                                fontWeight: 600,
+                                cursor: 'pointer',
+                            }}
+                        >
+                            画面外の宝箱・ボスを矢印で表示
+                            <input
+                                type='checkbox'
+                                checked={showOffscreenIndicators}
+                                onChange={onToggleOffscreenIndicators}
+                                style={{ width: 18, height: 18, cursor: 'pointer' }}
+                            />
+                        </label>
+                        {/* Bug reports: record movement input and replay it on the same map */}
+                        <div style={{ display: 'grid', gap: 8 }}>
+                            <span style={{ fontSize: 12, color: '#94a3b8' }}>不具合の報告（移動の記録・再生）</span>
+                            <button
+                                onClick={() => {
+                                    setShowSettings(false)
+                                    onToggleInputRecording()
+                                }}
+                                disabled={isReplayingInput}
+                                style={{
+                                    padding: '11px 12px',
+                                    borderRadius: 10,
+                                    border:
+                                        isRecordingInput ?
+                                            '1px solid rgba(248,113,113,0.55)'
+                                        :   '1px solid rgba(59,130,246,0.45)',
+                                    background: 'linear-gradient(180deg, rgba(30,64,175,0.35), rgba(30,41,59,0.75))',
+                                    color: isRecordingInput ? '#fecaca' : '#dbeafe',
+                                    textAlign: 'left',
+                                    fontWeight: 600,
+                                    opacity: isReplayingInput ? 0.5 : 1,
+                                }}
+                            >
+                                {isRecordingInput ? '⏹ 記録を停止して保存' : '⏺ 入力の記録を開始'}
+                            </button>
+                            <label
+                                style={{
+                                    padding: '11px 12px',
+                                    borderRadius: 10,
+                                    border: '1px solid rgba(59,130,246,0.45)',
+                                    background: 'linear-gradient(180deg, rgba(30,64,175,0.35), rgba(30,41,59,0.75))',
+                                    color: '#dbeafe',
+                                    fontWeight: 600,
+                                    cursor: isRecordingInput || isReplayingInput ? 'not-allowed' : 'pointer',
+                                    opacity: isRecordingInput || isReplayingInput ? 0.5 : 1,
+                                }}
+                            >
+                                {isReplayingInput ? '▶ 再生中...' : '▶ 記録ファイルを再生'}
+                                <input
+                                    type='file'
+                                    accept='application/json,.json'
+                                    disabled={isRecordingInput || isReplayingInput}
+                                    style={{ display: 'none' }}
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0]
+                                        e.target.value = ''
+                                        if (!file) return
+                                        setShowSettings(false)
+                                        onReplayInputRecording(file)
+                                    }}
+                                />
+                            </label>
+                        </div>
                         <button
                             onClick={onLogout}
                             style={{
@@ -478,6 +642,18 @@ export const GameUI = ({
                 </div>
             )}
 
+            {showKeyBindings && (
+                <KeyBindingsModal
+                    keyBindings={keyBindings}
+                    canSaveToProfile={!!localStorage.getItem('token')}
+                    onSave={(bindings, saveToProfile) => {
+                        onSaveKeyBindings(bindings, saveToProfile)
+                        setShowKeyBindings(false)
+                    }}
+                    onClose={() => setShowKeyBindings(false)}
+                />
+            )}
+
             {showProfileModal && (
                 <div
                     style={{
@@ -638,14 +814,15 @@ export const GameUI = ({
                             borderRadius: 12,
                             color: '#e2e8f0',
                             display: 'grid',
-                            gridTemplateColumns: '360px 1fr',
-                            overflow: 'hidden',
+                            // Narrow screens stack the preview above the item list and scroll
+                            gridTemplateColumns: isCompactLayout ? '1fr' : '360px 1fr',
+                            overflow: isCompactLayout ? 'auto' : 'hidden',
                         }}
                         onClick={(e) => e.stopPropagation()}
                     >
                         <div
                             style={{
-                                borderRight: '1px solid rgba(255,255,255,0.08)',
+                                borderRight: isCompactLayout ? undefined : '1px solid rgba(255,255,255,0.08)',
                                 padding: 16,
                                 display: 'grid',
                                 gridTemplateRows: 'auto 1fr',
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react'
+
+import {
+    DEFAULT_KEY_BINDINGS,
+    KEY_ACTIONS,
+    KEY_ACTION_LABELS,
+    type KeyAction,
+    type KeyBindings,
+    MAX_KEYS_PER_ACTION,
+    formatKeyCode,
+} from '../KeyBindings'
+
+interface KeyBindingsModalProps {
+    keyBindings: KeyBindings
+    canSaveToProfile: boolean
+    onSave: (bindings: KeyBindings, saveToProfile: boolean) => void
+    onClose: () => void
+}
+
+/**
+ * Key binding editor opened from the settings modal
+ * Click a slot, then press a key (Esc cancels, Backspace/Delete clears the slot)
+ */
+export const KeyBindingsModal = ({ keyBindings, canSaveToProfile, onSave, onClose }: KeyBindingsModalProps) => {
+    const [draft, setDraft] = useState<KeyBindings>(keyBindings)
+    const [listening, setListening] = useState<{ action: KeyAction; slot: number } | null>(null)
+    const [saveToProfile, setSaveToProfile] = useState(canSaveToProfile)
+
+    // Capture the next key press before the game's InputHandler sees it
+    useEffect(() => {
+        if (!listening) return
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault()
+            e.stopImmediatePropagation()
+
+            if (e.code === 'Escape') {
+                setListening(null)
+                return
+            }
+
+            setDraft((prev) => {
+                const next = { ...prev }
+                if (e.code === 'Backspace' || e.code === 'Delete') {
+                    next[listening.action] = prev[listening.action].filter((_, i) => i !== listening.slot)
+                    return next
+                }
+
+                // A key can only do one thing - take it away from any other action
+                for (const action of KEY_ACTIONS) {
+                    next[action] = prev[action].filter((code) => code !== e.code)
+                }
+                const codes = [...next[listening.action]]
+                codes[Math.min(listening.slot, codes.length)] = e.code
+                next[listening.action] = codes.slice(0, MAX_KEYS_PER_ACTION)
+                return next
+            })
+            setListening(null)
+        }
+
+        window.addEventListener('keydown', handleKeyDown, true)
+        return () => window.removeEventListener('keydown', handleKeyDown, true)
+    }, [listening])
+
+    const slotButtonStyle = (active: boolean): React.CSSProperties => ({
+        minWidth: 72,
+        padding: '6px 8px',
+        borderRadius: 8,
+        border: active ? '1px solid #7dd3fc' : '1px solid rgba(148,163,184,0.35)',
+        background: active ? 'rgba(56,189,248,0.25)' : 'rgba(30,41,59,0.7)',
+        color: '#e2e8f0',
+        fontWeight: 600,
+        fontSize: 12,
+    })
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                inset: 0,
+                background: 'rgba(2,6,23,0.7)',
+                backdropFilter: 'blur(2px)',
+                zIndex: 10030,
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+            }}
+            onClick={onClose}
+        >
+            <div
+                style={{
+                    width: 420,
+                    maxWidth: '94vw',
+                    maxHeight: '90vh',
+                    overflowY: 'auto',
+                    background: 'linear-gradient(165deg, rgba(15,23,42,0.98) 0%, rgba(2,6,23,0.98) 100%)',
+                    border: '1px solid rgba(148,163,184,0.28)',
+                    boxShadow: '0 18px 40px rgba(0,0,0,0.45)',
+                    borderRadius: 14,
+                    padding: 18,
+                    color: '#e2e8f0',
+                    display: 'grid',
+                    gap: 12,
+                }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div
+                    style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        borderBottom: '1px solid rgba(148,163,184,0.18)',
+                        paddingBottom: 10,
+                    }}
+                >
+                    <strong style={{ fontSize: 16, letterSpacing: 0.3 }}>キー設定</strong>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            width: 28,
+                            height: 28,
+                            borderRadius: 8,
+                            border: '1px solid rgba(148,163,184,0.35)',
+                            background: 'rgba(30,41,59,0.7)',
+                            color: '#cbd5e1',
+                        }}
+                    >
+                        ✖
+                    </button>
+                </div>
+
+                <div style={{ fontSize: 12, color: '#94a3b8' }}>
+                    枠をクリックしてキーを押してください（Escでキャンセル、Backspaceで解除）
+                </div>
+
+                <div style={{ display: 'grid', gap: 8 }}>
+                    {KEY_ACTIONS.map((action) => (
+                        <div
+                            key={action}
+                            style={{
+                                display: 'grid',
+                                gridTemplateColumns: '1fr auto auto',
+                                alignItems: 'center',
+                                gap: 8,
+                            }}
+                        >
+                            <span style={{ fontSize: 13 }}>{KEY_ACTION_LABELS[action]}</span>
+                            {Array.from({ length: MAX_KEYS_PER_ACTION }, (_, slot) => {
+                                const active = listening?.action === action && listening.slot === slot
+                                const code = draft[action][slot]
+                                return (
+                                    <button
+                                        key={slot}
+                                        onClick={() => setListening({ action, slot })}
+                                        style={slotButtonStyle(active)}
+                                    >
+                                        {active ?
+                                            '...'
+                                        : code ?
+                                            formatKeyCode(code)
+                                        :   '—'}
+                                    </button>
+                                )
+                            })}
+                        </div>
+                    ))}
+                </div>
+
+                {canSaveToProfile && (
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13 }}>
+                        <input
+                            type='checkbox'
+                            checked={saveToProfile}
+                            onChange={(e) => setSaveToProfile(e.target.checked)}
+                        />
+                        プロフィールにも保存（他の端末でも使う）
+                    </label>
+                )}
+
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                    <button
+                        onClick={() => setDraft({ ...DEFAULT_KEY_BINDINGS })}
+                        style={{
+                            padding: '9px 12px',
+                            borderRadius: 10,
+                            border: '1px solid rgba(148,163,184,0.35)',
+                            background: 'rgba(30,41,59,0.7)',
+                            color: '#cbd5e1',
+                            fontWeight: 600,
+                        }}
+                    >
+                        初期設定に戻す
+                    </button>
+                    <button
+                        onClick={() => onSave(draft, canSaveToProfile && saveToProfile)}
+                        style={{
+                            padding: '9px 16px',
+                            borderRadius: 10,
+                            border: '1px solid rgba(59,130,246,0.45)',
+                            background: 'linear-gradient(180deg, rgba(30,64,175,0.55), rgba(30,41,59,0.85))',
+                            color: '#dbeafe',
+                            fontWeight: 700,
+                        }}
+                    >
+                        保存
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react'
+
+import { GameConfig } from '../../config/gameConfig'
+
+type Point = { x: number; y: number }
+
+// Map extent in pixels - infinite maps can start at negative coordinates
+export type MinimapArea = { x: number; y: number; width: number; height: number }
+
+// Everything drawn on top of the map image, in map coordinates
+export interface MinimapMarkers {
+    player: Point | null
+    remotePlayers: Point[]
+    chests: (Point & { color: string })[]
+    bosses: Point[]
+    waypoint: Point | null
+    view: { x: number; y: number; width: number; height: number } | null // Camera viewport
+}
+
+interface MinimapProps {
+    background: HTMLCanvasElement | null // Pre-rendered tile layers (TiledMapLoader.renderMinimap)
+    mapArea: MinimapArea
+    getMarkers: () => MinimapMarkers
+    onSetWaypoint: (point: Point) => void
+    onClearWaypoint: () => void
+    defaultCollapsed?: boolean // Small screens start collapsed
+}
+
+/**
+ * Minimap panel: the map at a reduced scale with players, chests and bosses
+ * Click to set a waypoint, right-click to clear it
+ */
+export const Minimap = ({
+    background,
+    mapArea,
+    getMarkers,
+    onSetWaypoint,
+    onClearWaypoint,
+    defaultCollapsed = false,
+}: MinimapProps) => {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null)
+    const [isCollapsed, setIsCollapsed] = useState(defaultCollapsed)
+
+    const scale = GameConfig.minimap.size / Math.max(mapArea.width, mapArea.height, 1)
+    const width = Math.round(mapArea.width * scale)
+    const height = Math.round(mapArea.height * scale)
+    const originX = mapArea.x
+    const originY = mapArea.y
+
+    // Markers move every frame - redraw on an interval instead of re-rendering React
+    useEffect(() => {
+        if (isCollapsed) return
+
+        const draw = () => {
+            const ctx = canvasRef.current?.getContext('2d')
+            if (!ctx) return
+
+            ctx.clearRect(0, 0, width, height)
+            if (background) {
+                ctx.imageSmoothingEnabled = false
+                ctx.drawImage(background, 0, 0, width, height)
+            } else {
+                ctx.fillStyle = '#1a1a1a'
+                ctx.fillRect(0, 0, width, height)
+            }
+
+            const markers = getMarkers()
+            const toCanvas = (point: Point) => ({ x: (point.x - originX) * scale, y: (point.y - originY) * scale })
+            const dot = (point: Point, radius: number, color: string) => {
+                const { x, y } = toCanvas(point)
+                ctx.beginPath()
+                ctx.arc(x, y, radius, 0, Math.PI * 2)
+                ctx.fillStyle = color
+                ctx.fill()
+            }
+
+            if (markers.view) {
+                ctx.strokeStyle = 'rgba(255,255,255,0.7)'
+                ctx.lineWidth = 1
+                const { x, y } = toCanvas(markers.view)
+                ctx.strokeRect(x, y, markers.view.width * scale, markers.view.height * scale)
+            }
+
+            for (const chest of markers.chests) {
+                const { x, y } = toCanvas(chest)
+                ctx.fillStyle = chest.color
+                ctx.fillRect(x - 2.5, y - 2.5, 5, 5)
+                ctx.strokeStyle = 'rgba(0,0,0,0.8)'
+                ctx.strokeRect(x - 2.5, y - 2.5, 5, 5)
+            }
+            for (const boss of markers.bosses) dot(boss, 4.5, '#ef4444')
+            for (const remote of markers.remotePlayers) dot(remote, 2.5, '#7dd3fc')
+
+            if (markers.waypoint) {
+                const { x, y } = toCanvas(markers.waypoint)
+                ctx.strokeStyle = '#fde047'
+                ctx.lineWidth = 2
+                ctx.beginPath()
+                ctx.moveTo(x - 4, y - 4)
+                ctx.lineTo(x + 4, y + 4)
+                ctx.moveTo(x + 4, y - 4)
+                ctx.lineTo(x - 4, y + 4)
+                ctx.stroke()
+            }
+
+            if (markers.player) {
+                dot(markers.player, 4, '#0f172a')
+                dot(markers.player, 3, '#4ade80')
+            }
+        }
+
+        draw()
+        const timer = setInterval(draw, GameConfig.minimap.refreshInterval)
+        return () => clearInterval(timer)
+    }, [background, getMarkers, width, height, scale, originX, originY, isCollapsed])
+
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                left: 20,
+                top: 72,
+                zIndex: 9998,
+                borderRadius: 10,
+                overflow: 'hidden',
+                border: '1px solid rgba(148,163,184,0.35)',
+                background: 'rgba(2,6,23,0.85)',
+                boxShadow: '0 8px 20px rgba(0,0,0,0.4)',
+            }}
+        >
+            <button
+                onClick={() => setIsCollapsed((v) => !v)}
+                style={{
+                    width: '100%',
+                    minWidth: 120,
+                    padding: '4px 8px',
+                    border: 'none',
+                    background: 'rgba(15,23,42,0.9)',
+                    color: '#cbd5e1',
+                    fontSize: 12,
+                    fontWeight: 700,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    cursor: 'pointer',
+                }}
+            >
+                <span>ミニマップ</span>
+                <span>{isCollapsed ? '▸' : '▾'}</span>
+            </button>
+            {!isCollapsed && (
+                <canvas
+                    ref={canvasRef}
+                    width={width}
+                    height={height}
+                    title='クリックで目的地を設定（右クリックで解除）'
+                    style={{ display: 'block', cursor: 'crosshair' }}
+                    onClick={(e) =>
+                        onSetWaypoint({
+                            x: originX + e.nativeEvent.offsetX / scale,
+                            y: originY + e.nativeEvent.offsetY / scale,
+                        })
+                    }
+                    onContextMenu={(e) => {
+                        e.preventDefault()
+                        onClearWaypoint()
+                    }}
+                />
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,120 @@
+import { type ReactNode } from 'react'
+
+import { GameConfig } from '../../config/gameConfig'
+import { type ConnectionState } from '../MultiplayerManager'
+
+interface ReconnectingOverlayProps {
+    state: ConnectionState
+    attempt: number
+}
+
+/**
+ * Covers the game while the connection to the server is down
+ * Shows retry progress, a reload button once socket.io has given up,
+ * and a way back to the login screen when the server rejects our token
+ */
+export const ReconnectingOverlay = ({ state, attempt }: ReconnectingOverlayProps) => {
+    if (state === 'connected') return null
+
+    if (state === 'unauthorized') {
+        return (
+            <ConnectionDialog
+                title='🔒 認証に失敗しました'
+                message='ログインの有効期限が切れた可能性があります。もう一度ログインしてください'
+                actionLabel='ログイン画面へ'
+                onAction={() => {
+                    // Same as the api client's 401 handling
+                    localStorage.removeItem('token')
+                    localStorage.removeItem('user')
+                    window.location.href = '/login'
+                }}
+            />
+        )
+    }
+
+    if (state === 'failed') {
+        return (
+            <ConnectionDialog
+                title='⚠️ サーバーに接続できません'
+                message='しばらくしてからページを再読み込みしてください'
+                actionLabel='再読み込み'
+                onAction={() => window.location.reload()}
+            />
+        )
+    }
+
+    return (
+        <ConnectionDialog
+            title='🔄 再接続中...'
+            message={
+                <>
+                    サーバーとの接続が切れました
+                    {attempt > 0 && (
+                        <>
+                            <br />
+                            再試行 {attempt} / {GameConfig.multiplayer.reconnectAttempts}
+                        </>
+                    )}
+                </>
+            }
+        />
+    )
+}
+
+interface ConnectionDialogProps {
+    title: string
+    message: ReactNode
+    actionLabel?: string
+    onAction?: () => void
+}
+
+const ConnectionDialog = ({ title, message, actionLabel, onAction }: ConnectionDialogProps) => {
+    return (
+        <div
+            style={{
+                position: 'absolute',
+                inset: 0,
+                background: 'rgba(2,6,23,0.7)',
+                backdropFilter: 'blur(2px)',
+                zIndex: 10030,
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+            }}
+        >
+            <div
+                style={{
+                    width: 320,
+                    maxWidth: '92vw',
+                    padding: 18,
+                    borderRadius: 14,
+                    border: '1px solid rgba(148,163,184,0.28)',
+                    background: 'linear-gradient(165deg, rgba(15,23,42,0.98) 0%, rgba(2,6,23,0.98) 100%)',
+                    boxShadow: '0 18px 40px rgba(0,0,0,0.45)',
+                    color: '#e2e8f0',
+                    display: 'grid',
+                    gap: 12,
+                    textAlign: 'center',
+                }}
+            >
+                <strong style={{ fontSize: 16, letterSpacing: 0.3 }}>{title}</strong>
+                <div style={{ fontSize: 13, color: '#94a3b8', lineHeight: 1.6 }}>{message}</div>
+                {actionLabel && onAction && (
+                    <button
+                        onClick={onAction}
+                        style={{
+                            padding: '11px 12px',
+                            borderRadius: 10,
+                            border: '1px solid rgba(59,130,246,0.45)',
+                            background: 'linear-gradient(180deg, rgba(30,64,175,0.35), rgba(30,41,59,0.75))',
+                            color: '#dbeafe',
+                            fontWeight: 600,
+                        }}
+                    >
+                        {actionLabel}
+                    </button>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,111 @@
+interface SpectatorHUDProps {
+    followedPlayerName: string | null
+    notification: string | null
+    onStopFollowing: () => void
+    onExit: () => void
+}
+
+/**
+ * Spectator mode overlay: controls help, who is being followed, and a way back to the dashboard
+ */
+export const SpectatorHUD = ({ followedPlayerName, notification, onStopFollowing, onExit }: SpectatorHUDProps) => {
+    return (
+        <>
+            <div
+                style={{
+                    position: 'absolute',
+                    top: 20,
+                    left: 20,
+                    zIndex: 9998,
+                    width: 280,
+                    padding: 14,
+                    borderRadius: 12,
+                    border: '1px solid rgba(148,163,184,0.28)',
+                    background: 'linear-gradient(165deg, rgba(15,23,42,0.95) 0%, rgba(2,6,23,0.95) 100%)',
+                    boxShadow: '0 12px 28px rgba(0,0,0,0.45)',
+                    color: '#e2e8f0',
+                    display: 'grid',
+                    gap: 10,
+                }}
+            >
+                <strong style={{ fontSize: 15, letterSpacing: 0.3 }}>👀 観戦モード</strong>
+                <div style={{ fontSize: 12, color: '#94a3b8', lineHeight: 1.6 }}>
+                    WASD・ドラッグで移動 / ホイール・ピンチでズーム
+                    <br />
+                    ランキングかマップ上のプレイヤーをクリックで追従
+                </div>
+
+                {followedPlayerName && (
+                    <div
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'space-between',
+                            gap: 8,
+                            padding: '8px 10px',
+                            borderRadius: 8,
+                            background: 'rgba(56,189,248,0.18)',
+                            border: '1px solid rgba(56,189,248,0.55)',
+                            fontSize: 13,
+                        }}
+                    >
+                        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            追従中: <strong>{followedPlayerName}</strong>
+                        </span>
+                        <button
+                            onClick={onStopFollowing}
+                            style={{
+                                padding: '4px 8px',
+                                borderRadius: 6,
+                                border: '1px solid rgba(148,163,184,0.35)',
+                                background: 'rgba(30,41,59,0.7)',
+                                color: '#cbd5e1',
+                                fontSize: 12,
+                                flexShrink: 0,
+                            }}
+                        >
+                            解除
+                        </button>
+                    </div>
+                )}
+
+                <button
+                    onClick={onExit}
+                    style={{
+                        padding: '9px 12px',
+                        borderRadius: 10,
+                        border: '1px solid rgba(59,130,246,0.45)',
+                        background: 'linear-gradient(180deg, rgba(30,64,175,0.35), rgba(30,41,59,0.75))',
+                        color: '#dbeafe',
+                        fontWeight: 600,
+                    }}
+                >
+                    管理画面に戻る
+                </button>
+            </div>
+
+            {notification && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        top: 20,
+                        left: '50%',
+                        transform: 'translateX(-50%)',
+                        background: 'rgba(255, 255, 255, 0.95)',
+                        color: '#333',
+                        padding: '8px 16px',
+                        borderRadius: 8,
+                        fontSize: 14,
+                        fontWeight: '500',
+                        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)',
+                        zIndex: 10000,
+                        pointerEvents: 'none',
+                        border: '1px solid rgba(0, 0, 0, 0.1)',
+                    }}
+                >
+                    {notification}
+                </div>
+            )}
+        </>
+    )
+}
@@ -0,0 +1,118 @@
+import { useRef, useState } from 'react'
+
+import { InputHandler } from '../InputHandler'
+
+interface TouchControlsProps {
+    inputHandler: InputHandler | null
+    canInteract: boolean // A chest or boss is in range
+}
+
+const JOYSTICK_RADIUS = 60
+const KNOB_RADIUS = 26
+
+/**
+ * On-screen virtual joystick and interact button for phones and tablets
+ * Feeds InputHandler the same way the keyboard and gamepad do
+ */
+export const TouchControls = ({ inputHandler, canInteract }: TouchControlsProps) => {
+    const baseRef = useRef<HTMLDivElement | null>(null)
+    const pointerIdRef = useRef<number | null>(null)
+    const [knob, setKnob] = useState({ x: 0, y: 0 })
+
+    const updateStick = (clientX: number, clientY: number) => {
+        const base = baseRef.current
+        if (!base) return
+
+        const rect = base.getBoundingClientRect()
+        let dx = clientX - (rect.left + rect.width / 2)
+        let dy = clientY - (rect.top + rect.height / 2)
+        const distance = Math.hypot(dx, dy)
+        if (distance > JOYSTICK_RADIUS) {
+            dx = (dx / distance) * JOYSTICK_RADIUS
+            dy = (dy / distance) * JOYSTICK_RADIUS
+        }
+
+        setKnob({ x: dx, y: dy })
+        // Analog: partial tilt walks slower
+        inputHandler?.setTouchVector(distance === 0 ? null : { x: dx / JOYSTICK_RADIUS, y: dy / JOYSTICK_RADIUS })
+    }
+
+    const releaseStick = () => {
+        pointerIdRef.current = null
+        setKnob({ x: 0, y: 0 })
+        inputHandler?.setTouchVector(null)
+    }
+
+    return (
+        <>
+            <div
+                ref={baseRef}
+                onPointerDown={(e) => {
+                    e.preventDefault()
+                    e.currentTarget.setPointerCapture(e.pointerId)
+                    pointerIdRef.current = e.pointerId
+                    updateStick(e.clientX, e.clientY)
+                }}
+                onPointerMove={(e) => {
+                    if (pointerIdRef.current === e.pointerId) updateStick(e.clientX, e.clientY)
+                }}
+                onPointerUp={releaseStick}
+                onPointerCancel={releaseStick}
+                style={{
+                    position: 'absolute',
+                    left: 124,
+                    bottom: 24,
+                    width: JOYSTICK_RADIUS * 2,
+                    height: JOYSTICK_RADIUS * 2,
+                    borderRadius: '50%',
+                    border: '2px solid rgba(255,255,255,0.35)',
+                    background: 'rgba(15,23,42,0.45)',
+                    touchAction: 'none',
+                    zIndex: 9999,
+                }}
+            >
+                <div
+                    style={{
+                        position: 'absolute',
+                        left: JOYSTICK_RADIUS - KNOB_RADIUS + knob.x,
+                        top: JOYSTICK_RADIUS - KNOB_RADIUS + knob.y,
+                        width: KNOB_RADIUS * 2,
+                        height: KNOB_RADIUS * 2,
+                        borderRadius: '50%',
+                        background: 'linear-gradient(180deg, rgba(226,232,240,0.9), rgba(148,163,184,0.9))',
+                        boxShadow: '0 4px 12px rgba(0,0,0,0.45)',
+                        pointerEvents: 'none',
+                    }}
+                />
+            </div>
+
+            <button
+                onPointerDown={(e) => {
+                    e.preventDefault()
+                    inputHandler?.triggerInteract()
+                }}
+                style={{
+                    position: 'absolute',
+                    right: 24,
+                    bottom: 200,
+                    width: 72,
+                    height: 72,
+                    borderRadius: '50%',
+                    border: canInteract ? '2px solid #ffd700' : '2px solid rgba(255,255,255,0.35)',
+                    background:
+                        canInteract ?
+                            'linear-gradient(180deg, rgba(250,204,21,0.45), rgba(15,23,42,0.9))'
+                        :   'linear-gradient(180deg, rgba(30,41,59,0.85), rgba(2,6,23,0.85))',
+                    color: '#fff',
+                    fontSize: 16,
+                    fontWeight: 800,
+                    touchAction: 'none',
+                    zIndex: 9999,
+                }}
+                title='調べる'
+            >
+                調べる
+            </button>
+        </>
+    )
+}
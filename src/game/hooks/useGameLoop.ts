@@ -4,23 +4,46 @@ import * as PIXI from 'pixi.js'
 
 import { GameConfig } from '../../config/gameConfig'
 import { BossEntity } from '../BossEntity'
+import { Camera } from '../Camera'
 import { Character } from '../Character'
 import { ChestEntity } from '../ChestEntity'
-import { CollisionManager } from '../CollisionManager'
+import { CollisionDebugOverlay } from '../CollisionDebugOverlay'
+import { CollisionManager, type Rectangle } from '../CollisionManager'
 import { InputHandler } from '../InputHandler'
+import { type InputRecorder, type InputRecording, type InputReplayer } from '../InputRecorder'
 import { MultiplayerManager } from '../MultiplayerManager'
+import { type PathPoint } from '../NavigationGrid'
+import { type IndicatorTarget, OffscreenIndicators } from '../OffscreenIndicators'
+import { type MapTransition } from '../TiledMapLoader'
+
+// Path the character walks on its own (click-to-move, tapping a chest or boss)
+export interface WalkTarget {
+    path: PathPoint[] // Remaining waypoints; the last one is the destination
+    stopDistance: number // Stop once this close to the destination
+}
+
+// Intermediate waypoints count as reached within this many pixels
+const WAYPOINT_REACHED_DISTANCE = 4
 
 interface UseGameLoopOptions {
     app: PIXI.Application | null
     mapContainer: PIXI.Container | null
+    camera: Camera | null
     character: Character | null
     inputHandler: InputHandler | null
     multiplayer: MultiplayerManager | null
     collisionManager: CollisionManager
+    debugOverlay: CollisionDebugOverlay | null
+    offscreenIndicators: OffscreenIndicators | null
+    walkTargetRef: React.RefObject<WalkTarget | null>
+    inputRecorder: InputRecorder | null
+    replayerRef: React.RefObject<InputReplayer | null>
+    onReplayFinished: (recording: InputRecording, position: { x: number; y: number }) => void
     chestsRef: React.RefObject<Map<string, ChestEntity>>
     bossesRef: React.RefObject<Map<number, BossEntity>>
-    mapWidth: number
-    mapHeight: number
+    mapArea: Rectangle // Map extent in pixels (may start below 0 on infinite maps)
+    transitions: MapTransition[]
+    onMapTransition: (transition: MapTransition) => void
     setNearbyChest: (chestId: string | null) => void
     setNearbyChestPos: (pos: { x: number; y: number } | null) => void
     nearbyChestRef: React.RefObject<string | null>
@@ -31,19 +54,27 @@ interface UseGameLoopOptions {
 
 /**
  * Hook to manage the game loop (ticker)
- * Handles character movement, camera follow, and chest interaction detection
+ * Handles character movement, camera follow, map transitions, and chest interaction detection
  */
 export const useGameLoop = ({
     app,
     mapContainer,
+    camera,
     character,
     inputHandler,
     multiplayer,
     collisionManager,
+    debugOverlay,
+    offscreenIndicators,
+    walkTargetRef,
+    inputRecorder,
+    replayerRef,
+    onReplayFinished,
     chestsRef,
     bossesRef,
-    mapWidth,
-    mapHeight,
+    mapArea,
+    transitions,
+    onMapTransition,
     setNearbyChest,
     setNearbyChestPos,
     nearbyChestRef,
@@ -52,86 +83,113 @@ export const useGameLoop = ({
     nearbyBossRef,
 }: UseGameLoopOptions) => {
     useEffect(() => {
-        if (!app || !mapContainer || !character || !inputHandler) return
-
-        // Camera deadzone settings from config
-        const deadzoneWidth = window.innerWidth * GameConfig.camera.deadzoneWidthPercent
-        const deadzoneHeight = window.innerHeight * GameConfig.camera.deadzoneHeightPercent
+        if (!app || !mapContainer || !camera || !character || !inputHandler) return
 
         // Map bounds with padding from config
         const padding = GameConfig.map.padding
         const mapBounds = {
-            minX: padding,
-            maxX: mapWidth - padding,
-            minY: padding,
-            maxY: mapHeight - padding,
+            minX: mapArea.x + padding,
+            maxX: mapArea.x + mapArea.width - padding,
+            minY: mapArea.y + padding,
+            maxY: mapArea.y + mapArea.height - padding,
         }
 
+        const findTransition = (x: number, y: number) =>
+            transitions.find((t) => x >= t.x && x < t.x + t.width && y >= t.y && y < t.y + t.height) ?? null
+
+        // Transitions fire on entering an area, so arriving on top of one doesn't bounce the player back
+        let currentTransition = findTransition(character.getPosition().x, character.getPosition().y)
+
         // Game loop - update character and camera with deadzone
         const tickerFn = (ticker: PIXI.Ticker) => {
-            if (!character || !mapContainer) return
+            if (!character) return
+
+            // A replay supplies both the frame time and the movement, so the result matches the recording
+            const replayer = replayerRef.current
+            const replayFrame = replayer?.next() ?? null
 
             // Get delta time in seconds (framerate independent movement)
-            const deltaTime = ticker.deltaMS / 1000
+            const deltaTime = (replayFrame ? replayFrame.deltaMS : ticker.deltaMS) / 1000
 
             // Block movement when player is busy (solving questions, etc.)
             const isBusy = character.isBusy()
 
-            // Get input direction (null if busy)
-            const direction = isBusy ? null : inputHandler.getDirection()
-            const isMoving = direction !== null
+            // Get input vector (null if busy) - 4-way or 8-way depending on GameConfig.input.movementMode
+            let movement =
+                replayer ? (replayFrame?.movement ?? null)
+                : isBusy ? null
+                : inputHandler.getMovementVector()
+            if (replayFrame?.interact) inputHandler.triggerInteract()
+
+            // Walk toward the tapped target unless the player steers (or gets busy)
+            const walkTarget = walkTargetRef.current
+            const startPos = { ...character.getPosition() }
+            if (movement || isBusy || replayer) {
+                walkTargetRef.current = null
+            } else if (walkTarget) {
+                const distanceTo = (point: PathPoint) => Math.hypot(point.x - startPos.x, point.y - startPos.y)
+                while (walkTarget.path.length > 1 && distanceTo(walkTarget.path[0]) <= WAYPOINT_REACHED_DISTANCE) {
+                    walkTarget.path.shift()
+                }
+
+                const next = walkTarget.path[0]
+                const distance = next ? distanceTo(next) : 0
+                const isDestination = walkTarget.path.length <= 1
+                if (!next || (isDestination && distance <= Math.max(walkTarget.stopDistance, 1))) {
+                    walkTargetRef.current = null
+                } else {
+                    // Slow down on the last step so we don't overshoot the destination
+                    const step = GameConfig.character.speed * deltaTime
+                    const scale = isDestination ? Math.min(1, distance / step) : 1
+                    movement = {
+                        x: ((next.x - startPos.x) / distance) * scale,
+                        y: ((next.y - startPos.y) / distance) * scale,
+                    }
+                }
+            }
+            const isMoving = movement !== null
 
             // Move character (with map bounds and collision check)
             const charSize = character.getSize()
-            character.move(direction, deltaTime, mapBounds, (newX, newY, oldX, oldY) =>
+            character.moveVector(movement, deltaTime, mapBounds, (newX, newY, oldX, oldY) =>
                 collisionManager.getValidPosition(newX, newY, oldX, oldY, charSize.width, charSize.height)
             )
 
-            // Send position to multiplayer server (only when moving to reduce bandwidth)
+            inputRecorder?.recordFrame(ticker.deltaMS, movement)
+            if (replayer?.isFinished()) {
+                replayerRef.current = null
+                onReplayFinished(replayer.getRecording(), { ...character.getPosition() })
+            }
+
+            // Give up walking to a target when a wall stops us completely
+            if (walkTargetRef.current) {
+                const pos = character.getPosition()
+                if (pos.x === startPos.x && pos.y === startPos.y) {
+                    walkTargetRef.current = null
+                }
+            }
+
+            // Send position to multiplayer server (rate limiting and change detection live in MultiplayerManager)
             if (multiplayer && multiplayer.isConnected()) {
                 const pos = character.getPosition()
                 const dir = character.getCurrentDirection()
-                // Always send updates to keep sync, but include isMoving flag
-                multiplayer.sendPosition(pos.x, pos.y, dir, isMoving)
+                multiplayer.sendPosition(pos.x, pos.y, dir, isMoving, character.getInputSeq())
             }
 
-            // Camera follow with deadzone
             const charPos = character.getPosition()
 
-            // Calculate character position in screen space
-            const charScreenX = charPos.x + mapContainer.x
-            const charScreenY = charPos.y + mapContainer.y
-
-            // Calculate deadzone boundaries (centered on screen)
-            const deadzoneLeft = (window.innerWidth - deadzoneWidth) / 2
-            const deadzoneRight = (window.innerWidth + deadzoneWidth) / 2
-            const deadzoneTop = (window.innerHeight - deadzoneHeight) / 2
-            const deadzoneBottom = (window.innerHeight + deadzoneHeight) / 2
-
-            // Adjust camera if character exits deadzone
-            if (charScreenX < deadzoneLeft) {
-                mapContainer.x += deadzoneLeft - charScreenX
-            } else if (charScreenX > deadzoneRight) {
-                mapContainer.x -= charScreenX - deadzoneRight
+            // Map transition check
+            const transition = findTransition(charPos.x, charPos.y)
+            if (transition && transition !== currentTransition) {
+                onMapTransition(transition)
             }
+            currentTransition = transition
 
-            if (charScreenY < deadzoneTop) {
-                mapContainer.y += deadzoneTop - charScreenY
-            } else if (charScreenY > deadzoneBottom) {
-                mapContainer.y -= charScreenY - deadzoneBottom
-            }
-
-            // Clamp camera to map bounds (prevent showing outside map)
-            const minCameraX = window.innerWidth - mapWidth
-            const maxCameraX = 0
-            const minCameraY = window.innerHeight - mapHeight
-            const maxCameraY = 0
-
-            mapContainer.x = Math.max(minCameraX, Math.min(mapContainer.x, maxCameraX))
-            mapContainer.y = Math.max(minCameraY, Math.min(mapContainer.y, maxCameraY))
+            // Camera follows the character (deadzone, smoothing and map clamping live in Camera)
+            camera.update(deltaTime)
 
             // Check distance to all visible chests for interaction hint
-            const R2 = 48 // Interaction radius (increased to match 1.5x chest scale)
+            const R2 = ChestEntity.getInteractRadius()
             let closestChest: string | null = null
             let closestDist = Infinity
 
@@ -185,6 +243,47 @@ export const useGameLoop = ({
                 setNearbyBossPos(null)
             }
             nearbyBossRef.current = closestBoss
+
+            // Edge arrows for the nearest unopened chests and every boss
+            if (offscreenIndicators) {
+                const distanceTo = (pos: { x: number; y: number }) => Math.hypot(pos.x - charPos.x, pos.y - charPos.y)
+                const chestTargets: (IndicatorTarget & { distance: number })[] = []
+                for (const [chestId, chestEntity] of chestsRef.current?.entries() ?? []) {
+                    if (chestEntity.isOpeningAnimation) continue
+                    const pos = chestEntity.getPosition()
+                    chestTargets.push({
+                        id: `chest:${chestId}`,
+                        ...pos,
+                        color: ChestEntity.getRarityColor(chestEntity.getRarity()),
+                        distance: distanceTo(pos),
+                    })
+                }
+                chestTargets.sort((a, b) => a.distance - b.distance)
+
+                const targets: IndicatorTarget[] = chestTargets.slice(0, GameConfig.indicators.maxChests)
+                for (const [bossId, bossEntity] of bossesRef.current?.entries() ?? []) {
+                    targets.push({ id: `boss:${bossId}`, ...bossEntity.getPosition(), color: 0xef4444 })
+                }
+                offscreenIndicators.update(camera, charPos, targets, deltaTime)
+            }
+
+            // Collision debug overlay (map coordinates)
+            if (debugOverlay?.isVisible()) {
+                debugOverlay.drawFrame({
+                    hitbox: {
+                        x: charPos.x - charSize.width / 2,
+                        y: charPos.y - charSize.height / 2,
+                        width: charSize.width,
+                        height: charSize.height,
+                    },
+                    deadzone: camera.getDeadzone(),
+                    chests: Array.from(chestsRef.current?.values() ?? [], (chest) => chest.getPosition()),
+                    chestRadius: R2,
+                    bosses: Array.from(bossesRef.current?.values() ?? [], (boss) => boss.getPosition()),
+                    bossRadius: BOSS_R,
+                    path: walkTargetRef.current ? [charPos, ...walkTargetRef.current.path] : null,
+                })
+            }
         }
 
         app.ticker.add(tickerFn)
@@ -195,14 +294,22 @@ export const useGameLoop = ({
     }, [
         app,
         mapContainer,
+        camera,
         character,
         inputHandler,
         multiplayer,
         collisionManager,
+        debugOverlay,
+        offscreenIndicators,
+        walkTargetRef,
+        inputRecorder,
+        replayerRef,
+        onReplayFinished,
         chestsRef,
         bossesRef,
-        mapWidth,
-        mapHeight,
+        mapArea,
+        transitions,
+        onMapTransition,
         setNearbyChest,
         setNearbyChestPos,
         nearbyChestRef,
@@ -2,6 +2,7 @@ import { useRef, useState } from 'react'
 
 import * as PIXI from 'pixi.js'
 
+import { GameConfig } from '../../config/gameConfig'
 import { BossEntity } from '../BossEntity'
 import { Character } from '../Character'
 import { ChestEntity } from '../ChestEntity'
@@ -65,6 +66,9 @@ export const useGameState = () => {
     // Game ready state
     const [characterReady, setCharacterReady] = useState(false)
 
+    // Current world map (changes on map transitions)
+    const [currentMapId, setCurrentMapId] = useState<string>(GameConfig.map.defaultMapId)
+
     return {
         // Refs
         mapContainerRef,
@@ -114,5 +118,7 @@ export const useGameState = () => {
         setBossSpawnCountdown,
         characterReady,
         setCharacterReady,
+        currentMapId,
+        setCurrentMapId,
     }
 }
@@ -0,0 +1,44 @@
+import { useEffect } from 'react'
+
+import * as PIXI from 'pixi.js'
+
+import { GameConfig } from '../../config/gameConfig'
+import { Camera } from '../Camera'
+import { InputHandler } from '../InputHandler'
+
+interface UseSpectatorCameraOptions {
+    app: PIXI.Application | null
+    camera: Camera | null
+    inputHandler: InputHandler | null
+    enabled: boolean
+}
+
+/**
+ * Hook to drive the camera in spectator mode (there is no character, so useGameLoop doesn't run)
+ * Movement keys pan the view; following a player is handled by the camera target
+ */
+export const useSpectatorCamera = ({ app, camera, inputHandler, enabled }: UseSpectatorCameraOptions) => {
+    useEffect(() => {
+        if (!enabled || !app || !camera || !inputHandler) return
+
+        const tickerFn = (ticker: PIXI.Ticker) => {
+            const deltaTime = ticker.deltaMS / 1000
+
+            // Keys take over from following, same as dragging the map
+            const movement = inputHandler.getMovementVector()
+            if (movement) {
+                camera.stopFollowing()
+                const distance = GameConfig.camera.spectatorPanSpeed * deltaTime
+                camera.panBy(-movement.x * distance, -movement.y * distance)
+            }
+
+            camera.update(deltaTime)
+        }
+
+        app.ticker.add(tickerFn)
+
+        return () => {
+            app.ticker.remove(tickerFn)
+        }
+    }, [app, camera, inputHandler, enabled])
+}
@@ -0,0 +1,67 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { describe, expect, it } from 'vitest'
+
+import { GameConfig } from '../config/gameConfig'
+import type { TiledLayer, TiledMap, TiledProperty } from '../types/tiled'
+
+const loadMap = (mapId: string): TiledMap =>
+    JSON.parse(readFileSync(resolve('public/maps', GameConfig.map.files[mapId]), 'utf-8'))
+
+const property = (properties: TiledProperty[] | undefined, name: string) =>
+    properties?.find((p) => p.name === name)?.value as string | undefined
+
+// Same sources TiledMapLoader reads: transition objects and tile layers tagged with a target map
+const collectTravel = (layers: TiledLayer[]) => {
+    const targets: { from: string; targetMap: string; targetSpawn?: string }[] = []
+    const spawns: string[] = []
+    const visit = (list: TiledLayer[]) => {
+        for (const layer of list) {
+            if (layer.type === 'group' && layer.layers) visit(layer.layers)
+            const layerTarget = property(layer.properties, 'targetMap')
+            if (layer.type === 'tilelayer' && layerTarget) {
+                targets.push({
+                    from: layer.name,
+                    targetMap: layerTarget,
+                    targetSpawn: property(layer.properties, 'targetSpawn'),
+                })
+            }
+            for (const obj of layer.objects ?? []) {
+                if (obj.type === 'spawn') spawns.push(obj.name)
+                if (obj.type === 'transition') {
+                    targets.push({
+                        from: `${layer.name}#${obj.id}`,
+                        targetMap: property(obj.properties, 'targetMap') ?? '',
+                        targetSpawn: property(obj.properties, 'targetSpawn'),
+                    })
+                }
+            }
+        }
+    }
+    visit(layers)
+    return { targets, spawns }
+}
+
+describe('map files', () => {
+    const mapIds = Object.keys(GameConfig.map.files)
+    const travel = new Map(mapIds.map((id) => [id, collectTravel(loadMap(id).layers)]))
+
+    it.each(mapIds)('%s only leads to known maps and spawn points', (mapId) => {
+        const broken = travel
+            .get(mapId)!
+            .targets.filter(
+                ({ targetMap, targetSpawn }) =>
+                    !travel.has(targetMap) || !targetSpawn || !travel.get(targetMap)!.spawns.includes(targetSpawn)
+            )
+        expect(broken).toEqual([])
+    })
+
+    it('every room can be reached from the default map and left again', () => {
+        const reachable = new Set<string>([GameConfig.map.defaultMapId])
+        for (const id of reachable) {
+            for (const { targetMap } of travel.get(id)!.targets) reachable.add(targetMap)
+        }
+        expect([...reachable].sort()).toEqual([...mapIds].sort())
+        for (const id of mapIds) expect(travel.get(id)!.targets.length).toBeGreaterThan(0)
+    })
+})
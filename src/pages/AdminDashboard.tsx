@@ -6,6 +6,7 @@ import { useEffect, useState } from 'react'
 
 import { useNavigate } from 'react-router-dom'
 
+import { GameConfig } from '../config/gameConfig'
 import { useAuth } from '../context/AuthContext'
 import { BossManager } from '../game/components/BossManager'
 import { ChestManager } from '../game/components/ChestManager'
@@ -17,6 +18,8 @@ export const AdminDashboard = () => {
     const { user, isAdmin, loading, logout } = useAuth()
     const navigate = useNavigate()
     const [activeTab, setActiveTab] = useState<MenuTab>('chests')
+    // Map the chest/boss editors work on
+    const [mapId, setMapId] = useState<string>(GameConfig.map.defaultMapId)
 
     // Redirect if not admin
     useEffect(() => {
@@ -72,6 +75,14 @@ export const AdminDashboard = () => {
                         <span className='icon'>👹</span>
                         <span className='label'>ボス管理</span>
                     </button>
+
+                    <button
+                        className='nav-item'
+                        onClick={() => navigate('/spectate')}
+                    >
+                        <span className='icon'>👀</span>
+                        <span className='label'>観戦モード</span>
+                    </button>
                 </nav>
 
                 <div className='sidebar-footer'>
@@ -92,11 +103,38 @@ export const AdminDashboard = () => {
                         {activeTab === 'chests' && '📦 宝箱配置エディター'}
                         {activeTab === 'bosses' && '👹 ボス管理'}
                     </h1>
+                    <label className='map-select'>
+                        <span>🗺️ マップ:</span>
+                        <select
+                            value={mapId}
+                            onChange={(e) => setMapId(e.target.value)}
+                        >
+                            {Object.keys(GameConfig.map.files).map((id) => (
+                                <option
+                                    key={id}
+                                    value={id}
+                                >
+                                    {GameConfig.map.names[id] ?? id}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
                 </div>
 
                 <div className='content-body'>
-                    {activeTab === 'chests' && <ChestManager />}
-                    {activeTab === 'bosses' && <BossManager />}
+                    {/* Keyed by map so switching maps reloads the editor */}
+                    {activeTab === 'chests' && (
+                        <ChestManager
+                            key={mapId}
+                            mapId={mapId}
+                        />
+                    )}
+                    {activeTab === 'bosses' && (
+                        <BossManager
+                            key={mapId}
+                            mapId={mapId}
+                        />
+                    )}
                 </div>
             </main>
         </div>
@@ -9,16 +9,22 @@ import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../context/AuthContext'
 import { Game } from '../game/Game'
 
-export const GameWrapper = () => {
-    const { user, isAuthenticated, loading } = useAuth()
+/**
+ * @param spectator open the map in spectator mode (admins only)
+ */
+export const GameWrapper = ({ spectator = false }: { spectator?: boolean }) => {
+    const { user, isAuthenticated, isAdmin, loading } = useAuth()
     const navigate = useNavigate()
 
     // Redirect to login if not authenticated
     useEffect(() => {
         if (!loading && !isAuthenticated) {
             navigate('/login')
+        } else if (!loading && spectator && !isAdmin) {
+            // Spectating is for teachers running a session
+            navigate('/game')
         }
-    }, [loading, isAuthenticated, navigate])
+    }, [loading, isAuthenticated, isAdmin, spectator, navigate])
 
     // Handle loading state
     if (loading) {
@@ -38,10 +44,15 @@ export const GameWrapper = () => {
     }
 
     // Must be authenticated to reach here
-    if (!isAuthenticated || !user) {
+    if (!isAuthenticated || !user || (spectator && !isAdmin)) {
         return null
     }
 
     // Start game with username
-    return <Game playerName={user.username} />
+    return (
+        <Game
+            playerName={user.username}
+            spectator={spectator}
+        />
+    )
 }
@@ -4,6 +4,7 @@
  */
 import axios from 'axios'
 
+import { type StoredKeyBindings } from '../game/KeyBindings'
 import { type PlayerEquipment } from '../game/equipment/types'
 
 const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:4000'
@@ -108,10 +109,18 @@ export const authAPI = {
 
 export const gameAPI = {
     /**
-     * Submit answer to chest question
+     * Submit answer to chest question (the server identifies the player from the token)
      */
-    submitAnswer: async (chestId: string, answer: string, playerId: string) => {
-        const response = await api.post('/api/chest/answer', { chestId, answer, playerId })
+    submitAnswer: async (chestId: string, answer: string) => {
+        const response = await api.post('/api/chest/answer', { chestId, answer })
+        return response.data
+    },
+
+    /**
+     * Submit answer to boss question (the server identifies the player from the token)
+     */
+    submitBossAnswer: async (bossSpawnId: number, questionId: number, answer: string) => {
+        const response = await api.post('/api/boss/answer', { bossSpawnId, questionId, answer })
         return response.data
     },
 
@@ -176,6 +185,22 @@ export const playerAPI = {
         const response = await api.get('/api/player/inventory')
         return response.data
     },
+
+    /**
+     * Get client settings (key bindings) saved on the profile
+     */
+    getSettings: async () => {
+        const response = await api.get('/api/player/settings')
+        return response.data
+    },
+
+    /**
+     * Save client settings (key bindings) to the profile
+     */
+    updateSettings: async (settings: { keyBindings: StoredKeyBindings }) => {
+        const response = await api.put('/api/player/settings', settings)
+        return response.data
+    },
 }
 
 // =====================================================
@@ -184,7 +209,7 @@ export const playerAPI = {
 
 export const adminAPI = {
     /**
-     * Get all chest spawns
+     * Get all chest spawns for a map
      */
     getChests: async (mapId = 'main') => {
         const response = await api.get(`/api/admin/chests?map=${mapId}`)
@@ -195,6 +220,7 @@ export const adminAPI = {
      * Create a new chest spawn with question
      */
     createChest: async (data: {
+        mapId: string
         x: number
         y: number
         rarity: string
@@ -333,6 +359,7 @@ export const adminBossAPI = {
      * HP = questions.length * 10, damagePerCorrect = 10
      */
     createSpawn: async (data: {
+        mapId: string
         x: number
         y: number
         spawnDelaySeconds?: number
@@ -8,6 +8,8 @@ export interface TiledMap {
     layers: TiledLayer[]
     tilesets: TiledTileset[]
     infinite: boolean
+    parallaxoriginx?: number // Camera position where parallax layers line up
+    parallaxoriginy?: number
     orientation: string
     renderorder: string
     version: string
@@ -25,7 +27,25 @@ export interface TiledLayer {
     width: number
     height: number
     data?: number[] // For tile layers
+    chunks?: TiledChunk[] // For tile layers in infinite maps
     objects?: TiledObject[] // For object layers
+    layers?: TiledLayer[] // For group layers
+    startx?: number // Infinite maps: top-left tile of the layer
+    starty?: number
+    offsetx?: number // Pixel offset of the layer
+    offsety?: number
+    parallaxx?: number // Scroll factor relative to the camera (default 1)
+    parallaxy?: number
+    tintcolor?: string // #RRGGBB or #AARRGGBB multiplied into the layer
+    properties?: TiledProperty[]
+}
+
+export interface TiledChunk {
+    data: number[]
+    x: number // In tiles
+    y: number
+    width: number
+    height: number
 }
 
 export interface TiledTileset {
@@ -50,6 +70,12 @@ export interface TiledTileData {
     objectgroup?: {
         objects: TiledObject[]
     }
+    animation?: TiledFrame[] // Animated tile frames
+}
+
+export interface TiledFrame {
+    tileid: number // Local tile ID within the same tileset
+    duration: number // Frame duration in milliseconds
 }
 
 export interface TiledObject {
@@ -61,9 +87,19 @@ export interface TiledObject {
     width: number
     height: number
     visible: boolean
+    rotation?: number // Degrees clockwise around (x, y)
+    ellipse?: boolean
+    point?: boolean
+    polygon?: TiledPoint[] // Relative to (x, y)
+    polyline?: TiledPoint[] // Relative to (x, y)
     properties?: TiledProperty[]
 }
 
+export interface TiledPoint {
+    x: number
+    y: number
+}
+
 export interface TiledProperty {
     name: string
     type: string